@@ -0,0 +1,82 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {APICallback, RequestType, SimpleCallbackFunction} from './apitypes';
+import {GoogleError} from './googleError';
+import {Status} from './status';
+
+/**
+ * Creates the error of a call aborted by its signal.
+ *
+ * @private
+ *
+ * @param {AbortSignal} signal - the aborted signal.
+ * @return {GoogleError} a CANCELLED error, with the abort reason as its cause.
+ */
+export function createAbortError(signal: AbortSignal): GoogleError {
+  const reason = signal.reason;
+  const error = new GoogleError(
+    `The call was aborted: ${reason instanceof Error ? reason.message : reason}`,
+  );
+  error.code = Status.CANCELLED;
+  error.cause = reason;
+  return error;
+}
+
+/**
+ * Creates a function equivalent to func, but that is cancelled when the
+ * signal is aborted. It is not sent at all if the signal is already aborted.
+ *
+ * @private
+ *
+ * @param {SimpleCallbackFunction} func - A function.
+ * @param {AbortSignal} signal - the signal aborting the call.
+ * @return {SimpleCallbackFunction} A function that can be aborted.
+ */
+export function withAbortSignal(
+  func: SimpleCallbackFunction,
+  signal: AbortSignal,
+): SimpleCallbackFunction {
+  return (argument: RequestType, callback: APICallback) => {
+    if (signal.aborted) {
+      callback(createAbortError(signal));
+      return {cancel() {}};
+    }
+    let completed = false;
+    const onAbort = () => {
+      if (completed) {
+        return;
+      }
+      completed = true;
+      // The error of the cancelled call is ignored: the caller gets the
+      // abort reason instead.
+      callback(createAbortError(signal));
+      canceller.cancel();
+    };
+    const canceller = func(argument, (err, response, next, rawResponse) => {
+      signal.removeEventListener('abort', onAbort);
+      if (completed) {
+        return;
+      }
+      completed = true;
+      callback(err, response, next, rawResponse);
+    });
+    if (!completed) {
+      signal.addEventListener('abort', onAbort, {once: true});
+    }
+    return canceller;
+  };
+}
@@ -14,6 +14,7 @@
  * limitations under the License.
  */
 
+import {withAbortSignal} from '../abortSignal';
 import {APICaller} from '../apiCaller';
 import {APICallback, GRPCCall, SimpleCallbackFunction} from '../apitypes';
 import {OngoingCall, OngoingCallPromise} from '../call';
@@ -55,8 +56,16 @@ export class BundleApiCaller implements APICaller {
       throw new GoogleError('Bundling enabled with no isBundling!');
     }
 
+    let schedule: SimpleCallbackFunction = (
+      argument: {},
+      callback: TaskCallback,
+    ) => this.bundler.schedule(apiCall, argument, callback);
+    if (settings.signal) {
+      // Only the element of this call is removed from its bundle.
+      schedule = withAbortSignal(schedule, settings.signal);
+    }
     status.call((argument: {}, callback: TaskCallback) => {
-      this.bundler.schedule(apiCall, argument, callback);
+      schedule(argument, callback);
       return status;
     }, argument);
   }
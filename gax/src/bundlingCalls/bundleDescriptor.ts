@@ -16,6 +16,7 @@
 
 import {Descriptor} from '../descriptor';
 import {CallSettings} from '../gax';
+import {bundleSizeRecorder} from '../metrics';
 import {NormalApiCaller} from '../normalCalls/normalApiCaller';
 
 import {BundleApiCaller} from './bundleApiCaller';
@@ -80,7 +81,11 @@ export class BundleDescriptor implements Descriptor {
       return new NormalApiCaller();
     }
     return new BundleApiCaller(
-      new BundleExecutor(settings.bundleOptions!, this),
+      new BundleExecutor(
+        settings.bundleOptions!,
+        this,
+        bundleSizeRecorder(settings),
+      ),
     );
   }
 }
@@ -76,17 +76,21 @@ export class BundleExecutor {
   _timers: {[index: string]: ReturnType<typeof setTimeout>};
   _invocations: {[index: string]: string};
   _invocationId: number;
+  _recordBundleSize?: (elements: number) => void;
   /**
    * Organizes requests for an api service that requires to bundle them.
    *
    * @param {BundleOptions} bundleOptions - configures strategy this instance
    *   uses when executing bundled functions.
    * @param {BundleDescriptor} bundleDescriptor - the description of the bundling.
+   * @param {function(number)=} recordBundleSize - records the number of
+   *   elements of each bundle sent.
    * @constructor
    */
   constructor(
     bundleOptions: BundleOptions,
     bundleDescriptor: BundleDescriptor,
+    recordBundleSize?: (elements: number) => void,
   ) {
     this._options = bundleOptions;
     this._descriptor = bundleDescriptor;
@@ -94,6 +98,7 @@ export class BundleExecutor {
     this._timers = {};
     this._invocations = {};
     this._invocationId = 0;
+    this._recordBundleSize = recordBundleSize;
   }
 
   /**
@@ -279,6 +284,10 @@ export class BundleExecutor {
     const task = this._tasks[bundleId];
     delete this._tasks[bundleId];
 
+    const elementCount = task.getElementCount();
+    if (elementCount > 0) {
+      this._recordBundleSize?.(elementCount);
+    }
     task.run().forEach(id => {
       delete this._invocations[id];
     });
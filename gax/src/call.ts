@@ -18,6 +18,7 @@ import {Status} from './status';
 
 import {
   APICallback,
+  CancellableStream,
   NextPageRequestType,
   RawResponseType,
   RequestType,
@@ -146,3 +147,56 @@ export class OngoingCallPromise extends OngoingCall {
     };
   }
 }
+
+/**
+ * Calls a function with the outcome of a call: the error or the response of
+ * a unary call, each time its callback is called, or the error of a stream,
+ * from its gRPC status or its error event, once it ends or closes.
+ *
+ * @private
+ *
+ * @param {OngoingCall|CancellableStream} call - the ongoing call.
+ * @param {function} onOutcome - the function called with the error, or null,
+ *   and the response of a unary call.
+ */
+export function watchCallOutcome(
+  call: OngoingCall | CancellableStream,
+  onOutcome: (err: GoogleError | null, response?: ResponseType) => void,
+): void {
+  if (call instanceof OngoingCall) {
+    const callback = call.callback;
+    call.callback = (err, response, next, rawResponse) => {
+      onOutcome(err, response);
+      callback(err, response, next, rawResponse);
+    };
+    return;
+  }
+  // Listening to the errors would keep unhandled ones from throwing: they
+  // are seen as they are emitted instead. The gRPC status, when there is one,
+  // tells the outcome of the stream.
+  let error: GoogleError | null = null;
+  let ended = false;
+  const emit = call.emit;
+  call.emit = (event: string | symbol, ...args: unknown[]) => {
+    if (event === 'error') {
+      error = args[0] as GoogleError;
+    }
+    return emit.call(call, event, ...args);
+  };
+  call.on('status', (status: {code: Status; details?: string}) => {
+    if (status.code !== Status.OK) {
+      error = new GoogleError(status.details);
+      error.code = status.code;
+    } else {
+      error = null;
+    }
+  });
+  const onEnd = () => {
+    if (!ended) {
+      ended = true;
+      onOutcome(error);
+    }
+  };
+  call.once('end', onEnd);
+  call.once('close', onEnd);
+}
@@ -0,0 +1,331 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {EventEmitter} from 'events';
+
+import {APICallback, RequestType, SimpleCallbackFunction} from './apitypes';
+import {CallSettings} from './gax';
+import {GoogleError} from './googleError';
+import {Status} from './status';
+
+/**
+ * Parameters of a {@link CircuitBreaker}.
+ * @typedef {Object} CircuitBreakerOptions
+ * @property {number=} failureThreshold - the number of consecutive failed
+ *   calls after which the circuit opens. Defaults to 5.
+ * @property {number[]=} failureCodes - the status codes of the errors counted
+ *   as failures. Other errors show that the endpoint is alive. Defaults to
+ *   UNAVAILABLE and DEADLINE_EXCEEDED.
+ * @property {number=} cooldownMillis - how long the circuit stays open before
+ *   letting probe calls through. Defaults to 30 seconds.
+ * @property {number=} halfOpenMaxCalls - the number of probe calls allowed at
+ *   the same time while the circuit is half-open. Defaults to 1.
+ */
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;
+  failureCodes?: number[];
+  cooldownMillis?: number;
+  halfOpenMaxCalls?: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * How a call was let through by a {@link CircuitBreaker}: as a regular call
+ * of the closed circuit, or as a probe of the half-open one.
+ */
+export type CircuitAdmission = 'call' | 'probe';
+
+/**
+ * The payload of the `stateChange` event of {@link CircuitBreaker} and
+ * {@link CircuitBreakerRegistry}.
+ * @typedef {Object} CircuitStateChange
+ * @property {string} apiName - the name of the service.
+ * @property {string} methodName - the name of the method.
+ * @property {CircuitState} state - the new state of the circuit.
+ * @property {CircuitState} previousState - the state it left.
+ */
+export interface CircuitStateChange {
+  apiName: string;
+  methodName: string;
+  state: CircuitState;
+  previousState: CircuitState;
+}
+
+/**
+ * A circuit breaker guarding the calls of one method. It starts closed and
+ * lets every call through. After `failureThreshold` consecutive failures it
+ * opens: calls fail right away with UNAVAILABLE, without reaching the
+ * endpoint. Once `cooldownMillis` have elapsed it becomes half-open and lets
+ * a few probe calls through. A successful probe closes the circuit again, a
+ * failed one opens it for another cooldown.
+ *
+ * Emits a `stateChange` event, with a {@link CircuitStateChange}, every time
+ * its state changes.
+ */
+export class CircuitBreaker extends EventEmitter {
+  readonly apiName: string;
+  readonly methodName: string;
+  readonly failureThreshold: number;
+  readonly failureCodes: number[];
+  readonly cooldownMillis: number;
+  readonly halfOpenMaxCalls: number;
+  private _state: CircuitState = 'closed';
+  private _failures = 0;
+  private _openedAt = 0;
+  private _probes = 0;
+
+  /**
+   * @param {string} apiName - the name of the service.
+   * @param {string} methodName - the name of the guarded method.
+   * @param {CircuitBreakerOptions=} options - the parameters of the breaker.
+   * @constructor
+   */
+  constructor(
+    apiName: string,
+    methodName: string,
+    options: CircuitBreakerOptions = {},
+  ) {
+    super();
+    this.apiName = apiName;
+    this.methodName = methodName;
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.failureCodes = options.failureCodes ?? [
+      Status.UNAVAILABLE,
+      Status.DEADLINE_EXCEEDED,
+    ];
+    this.cooldownMillis = options.cooldownMillis ?? 30 * 1000;
+    this.halfOpenMaxCalls = options.halfOpenMaxCalls ?? 1;
+    if (!(this.failureThreshold >= 1)) {
+      throw new Error('failureThreshold should be at least 1');
+    }
+    if (!(this.cooldownMillis >= 0)) {
+      throw new Error('cooldownMillis should be a non-negative number');
+    }
+    if (!(this.halfOpenMaxCalls >= 1)) {
+      throw new Error('halfOpenMaxCalls should be at least 1');
+    }
+  }
+
+  /**
+   * The current state of the circuit.
+   */
+  get state(): CircuitState {
+    if (
+      this._state === 'open' &&
+      Date.now() - this._openedAt >= this.cooldownMillis
+    ) {
+      this.transition('half-open');
+    }
+    return this._state;
+  }
+
+  /**
+   * Asks whether a call may be sent. Every allowed call must be followed by
+   * exactly one call to {@link CircuitBreaker#record}.
+   *
+   * @return {boolean} false if the circuit is open, or if it is half-open and
+   *   enough probe calls are already pending.
+   */
+  tryAcquire(): boolean {
+    return this.acquire() !== null;
+  }
+
+  /**
+   * Like {@link CircuitBreaker#tryAcquire}, but also tells whether the call
+   * holds one of the probe slots of the half-open circuit, to be given back
+   * to {@link CircuitBreaker#record}.
+   *
+   * @return {?CircuitAdmission} how the call was let through, or null if it
+   *   may not be sent.
+   */
+  acquire(): CircuitAdmission | null {
+    switch (this.state) {
+      case 'closed':
+        return 'call';
+      case 'half-open':
+        if (this._probes >= this.halfOpenMaxCalls) {
+          return null;
+        }
+        this._probes++;
+        return 'probe';
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Records the outcome of a call allowed by {@link CircuitBreaker#tryAcquire}.
+   *
+   * @param {GoogleError=} err - the error of the call, if it failed.
+   * @param {CircuitAdmission=} admission - how the call was let through, as
+   *   returned by {@link CircuitBreaker#acquire}. Without it, the call is
+   *   taken for a probe if the circuit is half-open.
+   */
+  record(err?: GoogleError | null, admission?: CircuitAdmission): void {
+    // A probe completing after the half-open period ended, e.g. after another
+    // probe closed the circuit, counts as a regular call.
+    const probe =
+      this._state === 'half-open' && (admission ?? 'probe') === 'probe';
+    if (probe) {
+      this._probes = Math.max(this._probes - 1, 0);
+    }
+    if (err && err.code === Status.CANCELLED) {
+      // Cancelled calls say nothing about the health of the endpoint.
+      return;
+    }
+    if (!err || this.failureCodes.indexOf(err.code!) < 0) {
+      this._failures = 0;
+      if (probe) {
+        this.transition('closed');
+      }
+      return;
+    }
+    this._failures++;
+    if (
+      probe ||
+      (this._state === 'closed' && this._failures >= this.failureThreshold)
+    ) {
+      this._openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  private transition(state: CircuitState) {
+    const previousState = this._state;
+    if (previousState === state) {
+      return;
+    }
+    this._state = state;
+    this._probes = 0;
+    if (state === 'closed') {
+      this._failures = 0;
+    }
+    const change: CircuitStateChange = {
+      apiName: this.apiName,
+      methodName: this.methodName,
+      state,
+      previousState,
+    };
+    this.emit('stateChange', change);
+  }
+}
+
+/**
+ * The circuit breakers of all the methods of a client, keyed by service and
+ * method name. It forwards the `stateChange` events of its breakers, so that
+ * a single listener can observe all of them.
+ */
+export class CircuitBreakerRegistry extends EventEmitter {
+  readonly options: CircuitBreakerOptions;
+  private breakers = new Map<string, CircuitBreaker>();
+
+  /**
+   * @param {CircuitBreakerOptions=} options - the parameters of the breakers
+   *   created by this registry.
+   * @constructor
+   */
+  constructor(options: CircuitBreakerOptions = {}) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Returns the breaker of a method, creating it if needed.
+   *
+   * @param {string} apiName - the name of the service.
+   * @param {string} methodName - the name of the method.
+   * @return {CircuitBreaker} the breaker of the method.
+   */
+  get(apiName: string, methodName: string): CircuitBreaker {
+    const key = `${apiName}.${methodName}`;
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(apiName, methodName, this.options);
+      breaker.on('stateChange', (change: CircuitStateChange) => {
+        this.emit('stateChange', change);
+      });
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Returns the current state of all the breakers created so far.
+   *
+   * @return {Object} a mapping of `apiName.methodName` to circuit states.
+   */
+  states(): {[key: string]: CircuitState} {
+    const states: {[key: string]: CircuitState} = {};
+    for (const [key, breaker] of this.breakers) {
+      states[key] = breaker.state;
+    }
+    return states;
+  }
+
+  /**
+   * Sets a breaker on each of the settings returned by `constructSettings`.
+   *
+   * @param {string} apiName - the name of the service.
+   * @param {Object} settings - a mapping of method names to CallSettings.
+   * @return {Object} the same settings.
+   */
+  attach(apiName: string, settings: {[methodName: string]: CallSettings}) {
+    if (settings) {
+      for (const methodName of Object.keys(settings)) {
+        settings[methodName].circuitBreaker = this.get(apiName, methodName);
+      }
+    }
+    return settings;
+  }
+}
+
+/**
+ * Creates a function equivalent to func, but that fails right away while
+ * the circuit is open.
+ *
+ * @private
+ *
+ * @param {SimpleCallbackFunction} func - A function.
+ * @param {CircuitBreaker} breaker - the breaker guarding the method.
+ * @return {SimpleCallbackFunction} A function guarded by the breaker.
+ */
+export function withCircuitBreaker(
+  func: SimpleCallbackFunction,
+  breaker: CircuitBreaker,
+): SimpleCallbackFunction {
+  return (argument: RequestType, callback: APICallback) => {
+    const admission = breaker.acquire();
+    if (admission === null) {
+      const error = new GoogleError(
+        `Circuit breaker of ${breaker.apiName}.${breaker.methodName} is open, ` +
+          'the call was not sent.',
+      );
+      error.code = Status.UNAVAILABLE;
+      error.note = `Calls are sent again after a cooldown of ${breaker.cooldownMillis} milliseconds`;
+      callback(error);
+      return {cancel() {}};
+    }
+    let recorded = false;
+    return func(argument, (err, response, next, rawResponse) => {
+      if (!recorded) {
+        recorded = true;
+        breaker.record(err, admission);
+      }
+      callback(err, response, next, rawResponse);
+    });
+  };
+}
@@ -0,0 +1,439 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {APICallback, GRPCCall, GRPCCallResult, UnaryCall} from './apitypes';
+import {CallSettings} from './gax';
+import {GoogleError} from './googleError';
+import {Status} from './status';
+
+/**
+ * Parameters of a {@link ConcurrencyLimiter}.
+ * @typedef {Object} ConcurrencyLimiterOptions
+ * @property {number} maxConcurrentCalls - the number of calls that can be in
+ *   flight at the same time.
+ * @property {number=} maxQueueSize - the number of calls that can wait for a
+ *   slot. Calls over it fail right away. By default, the queue is unbounded.
+ */
+export interface ConcurrencyLimiterOptions {
+  maxConcurrentCalls: number;
+  maxQueueSize?: number;
+}
+
+/**
+ * The concurrency limits of the methods of a client.
+ * @typedef {Object} ConcurrencyLimitOptions
+ * @property {number=} maxConcurrentCalls - the number of calls that all the
+ *   methods of the client can have in flight at the same time.
+ * @property {Object.<string, number>=} methods - the number of calls that
+ *   each of these methods can have in flight at the same time, keyed by
+ *   method name, e.g. `getBook`. They also count against maxConcurrentCalls.
+ * @property {number=} maxQueueSize - the number of calls that can wait for a
+ *   slot in each limiter. By default, the queues are unbounded.
+ */
+export interface ConcurrencyLimitOptions {
+  maxConcurrentCalls?: number;
+  methods?: {[methodName: string]: number};
+  maxQueueSize?: number;
+}
+
+/**
+ * A snapshot of the pressure on a {@link ConcurrencyLimiter}.
+ * @typedef {Object} ConcurrencyStats
+ * @property {number} inFlight - the number of calls holding a slot.
+ * @property {number} queueLength - the number of calls waiting for a slot.
+ * @property {number} queuedCalls - the number of calls that had to wait for
+ *   their slot so far.
+ * @property {number} totalWaitMillis - the time these calls waited, in total.
+ * @property {number} maxWaitMillis - the longest time a call waited.
+ */
+export interface ConcurrencyStats {
+  inFlight: number;
+  queueLength: number;
+  queuedCalls: number;
+  totalWaitMillis: number;
+  maxWaitMillis: number;
+}
+
+type AcquireCallback = (err: GoogleError | null, release?: () => void) => void;
+
+interface Waiter {
+  callback: AcquireCallback;
+  queuedAt: number;
+  timeoutId?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * A bulkhead limiting the number of calls in flight at the same time. Calls
+ * over the limit are not sent: they wait in a queue, in order, until a slot
+ * is released. Each attempt of a retried call takes its own slot, so that
+ * calls waiting to retry do not hold one.
+ *
+ * A limiter can have a parent, e.g. the limiter of a whole client for the
+ * limiter of one of its methods. Its calls then take a slot in both.
+ */
+export class ConcurrencyLimiter {
+  readonly maxConcurrentCalls: number;
+  readonly maxQueueSize: number;
+  readonly parent?: ConcurrencyLimiter;
+  private _inFlight = 0;
+  private _queue: Waiter[] = [];
+  private _draining = false;
+  private _queuedCalls = 0;
+  private _totalWaitMillis = 0;
+  private _maxWaitMillis = 0;
+
+  /**
+   * @param {ConcurrencyLimiterOptions} options - the parameters of the
+   *   limiter.
+   * @param {ConcurrencyLimiter=} parent - a limiter in which the calls also
+   *   take a slot.
+   * @constructor
+   */
+  constructor(options: ConcurrencyLimiterOptions, parent?: ConcurrencyLimiter) {
+    this.maxConcurrentCalls = options.maxConcurrentCalls;
+    this.maxQueueSize = options.maxQueueSize ?? Infinity;
+    this.parent = parent;
+    if (
+      !Number.isInteger(this.maxConcurrentCalls) ||
+      this.maxConcurrentCalls < 1
+    ) {
+      throw new Error('maxConcurrentCalls should be a positive integer');
+    }
+    if (!(this.maxQueueSize >= 0)) {
+      throw new Error('maxQueueSize should be a non-negative number');
+    }
+  }
+
+  /**
+   * The number of calls holding a slot.
+   */
+  get inFlight(): number {
+    return this._inFlight;
+  }
+
+  /**
+   * The number of calls waiting for a slot.
+   */
+  get queueLength(): number {
+    return this._queue.length;
+  }
+
+  /**
+   * Returns the current pressure on the limiter, and the time the calls
+   * waited for their slot so far.
+   *
+   * @return {ConcurrencyStats} the statistics of the limiter.
+   */
+  stats(): ConcurrencyStats {
+    return {
+      inFlight: this._inFlight,
+      queueLength: this._queue.length,
+      queuedCalls: this._queuedCalls,
+      totalWaitMillis: this._totalWaitMillis,
+      maxWaitMillis: this._maxWaitMillis,
+    };
+  }
+
+  /**
+   * Waits for a slot, in this limiter and in its parent. The callback is
+   * called synchronously when a slot is available right away.
+   *
+   * @param {function(?GoogleError, function()=)} callback - called with null
+   *   and a function releasing the slot once the call is done, or with an
+   *   error if the queue is full or the deadline passed while waiting.
+   * @param {number=} deadline - the time, in milliseconds since the epoch,
+   *   after which the call stops waiting and fails with DEADLINE_EXCEEDED.
+   * @return {function(): boolean} a function removing the call from the
+   *   queue. It returns false if the call already left the queue.
+   */
+  acquire(callback: AcquireCallback, deadline?: number): () => boolean {
+    const parent = this.parent;
+    if (!parent) {
+      return this.acquireSlot(callback, deadline);
+    }
+    let release: (() => void) | undefined;
+    let leaveParentQueue: (() => boolean) | undefined;
+    const leaveQueue = this.acquireSlot((err, releaseSlot) => {
+      if (err) {
+        callback(err);
+        return;
+      }
+      release = releaseSlot;
+      leaveParentQueue = parent.acquire((err, releaseParentSlot) => {
+        if (err) {
+          releaseSlot!();
+          callback(err);
+          return;
+        }
+        callback(null, () => {
+          releaseParentSlot!();
+          releaseSlot!();
+        });
+      }, deadline);
+    }, deadline);
+    return () => {
+      if (!leaveParentQueue) {
+        return leaveQueue();
+      }
+      if (leaveParentQueue()) {
+        release!();
+        return true;
+      }
+      return false;
+    };
+  }
+
+  private acquireSlot(
+    callback: AcquireCallback,
+    deadline?: number,
+  ): () => boolean {
+    if (this._queue.length === 0 && this._inFlight < this.maxConcurrentCalls) {
+      this._inFlight++;
+      callback(null, this.releaser());
+      return () => false;
+    }
+    if (this._queue.length >= this.maxQueueSize) {
+      const error = new GoogleError(
+        `Concurrency limit queue is full (${this.maxQueueSize} calls), ` +
+          'the call was not sent.',
+      );
+      error.code = Status.RESOURCE_EXHAUSTED;
+      error.note = `Calls are limited to ${this.maxConcurrentCalls} in flight`;
+      callback(error);
+      return () => false;
+    }
+    const waiter: Waiter = {callback, queuedAt: Date.now()};
+    if (deadline !== undefined) {
+      waiter.timeoutId = setTimeout(
+        () => {
+          this.remove(waiter);
+          this.recordWait(waiter);
+          const error = new GoogleError(
+            'Deadline exceeded while waiting for a concurrency limit slot, ' +
+              'the call was not sent.',
+          );
+          error.code = Status.DEADLINE_EXCEEDED;
+          error.note = `Calls are limited to ${this.maxConcurrentCalls} in flight`;
+          callback(error);
+        },
+        Math.max(deadline - Date.now(), 0),
+      );
+    }
+    this._queue.push(waiter);
+    return () => this.remove(waiter);
+  }
+
+  private releaser() {
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this._inFlight--;
+        this.drain();
+      }
+    };
+  }
+
+  private drain() {
+    // Granted calls may complete, and release their slot, synchronously:
+    // the loop below serves the queue without recursing.
+    if (this._draining) {
+      return;
+    }
+    this._draining = true;
+    while (this._queue.length > 0 && this._inFlight < this.maxConcurrentCalls) {
+      const waiter = this._queue.shift()!;
+      clearTimeout(waiter.timeoutId);
+      this.recordWait(waiter);
+      this._inFlight++;
+      waiter.callback(null, this.releaser());
+    }
+    this._draining = false;
+  }
+
+  private remove(waiter: Waiter): boolean {
+    const index = this._queue.indexOf(waiter);
+    if (index < 0) {
+      return false;
+    }
+    this._queue.splice(index, 1);
+    clearTimeout(waiter.timeoutId);
+    return true;
+  }
+
+  private recordWait(waiter: Waiter) {
+    const waitMillis = Date.now() - waiter.queuedAt;
+    this._queuedCalls++;
+    this._totalWaitMillis += waitMillis;
+    this._maxWaitMillis = Math.max(this._maxWaitMillis, waitMillis);
+  }
+}
+
+/**
+ * The concurrency limiters of all the methods of a client: one limiter for
+ * the whole client, and one for each method with its own limit.
+ */
+export class ConcurrencyLimiterRegistry {
+  readonly options: ConcurrencyLimitOptions;
+  readonly clientLimiter?: ConcurrencyLimiter;
+  private limiters = new Map<string, ConcurrencyLimiter>();
+
+  /**
+   * @param {ConcurrencyLimitOptions} options - the limits of the client and
+   *   of its methods.
+   * @constructor
+   */
+  constructor(options: ConcurrencyLimitOptions) {
+    this.options = options;
+    if (options.maxConcurrentCalls !== undefined) {
+      this.clientLimiter = new ConcurrencyLimiter({
+        maxConcurrentCalls: options.maxConcurrentCalls,
+        maxQueueSize: options.maxQueueSize,
+      });
+    }
+  }
+
+  /**
+   * Returns the limiter of a method, creating it if needed.
+   *
+   * @param {string} apiName - the name of the service.
+   * @param {string} methodName - the name of the method.
+   * @return {ConcurrencyLimiter|undefined} the limiter of the method, the
+   *   limiter of the client if the method has no limit of its own, or
+   *   undefined if neither is limited.
+   */
+  get(apiName: string, methodName: string): ConcurrencyLimiter | undefined {
+    const maxConcurrentCalls = this.options.methods?.[methodName];
+    if (maxConcurrentCalls === undefined) {
+      return this.clientLimiter;
+    }
+    const key = `${apiName}.${methodName}`;
+    let limiter = this.limiters.get(key);
+    if (!limiter) {
+      limiter = new ConcurrencyLimiter(
+        {maxConcurrentCalls, maxQueueSize: this.options.maxQueueSize},
+        this.clientLimiter,
+      );
+      this.limiters.set(key, limiter);
+    }
+    return limiter;
+  }
+
+  /**
+   * Returns the statistics of the client limiter, under the `*` key, and of
+   * the method limiters created so far.
+   *
+   * @return {Object} a mapping of `apiName.methodName` to statistics.
+   */
+  stats(): {[key: string]: ConcurrencyStats} {
+    const stats: {[key: string]: ConcurrencyStats} = {};
+    if (this.clientLimiter) {
+      stats['*'] = this.clientLimiter.stats();
+    }
+    for (const [key, limiter] of this.limiters) {
+      stats[key] = limiter.stats();
+    }
+    return stats;
+  }
+
+  /**
+   * Sets a limiter on each of the settings returned by `constructSettings`.
+   *
+   * @param {string} apiName - the name of the service.
+   * @param {Object} settings - a mapping of method names to CallSettings.
+   * @return {Object} the same settings.
+   */
+  attach(apiName: string, settings: {[methodName: string]: CallSettings}) {
+    if (settings) {
+      for (const methodName of Object.keys(settings)) {
+        const limiter = this.get(apiName, methodName);
+        if (limiter) {
+          settings[methodName].concurrencyLimiter = limiter;
+        }
+      }
+    }
+    return settings;
+  }
+}
+
+/**
+ * Creates a unary function equivalent to func, but that waits for a slot in
+ * the limiter before sending each attempt. The time spent waiting counts
+ * against the deadline of the attempt.
+ *
+ * @private
+ *
+ * @param {GRPCCall} func - A unary function, called with the metadata and
+ *   the options of each attempt.
+ * @param {ConcurrencyLimiter} limiter - the limiter of the calls.
+ * @return {GRPCCall} A function limited by the limiter.
+ */
+export function withConcurrencyLimiter(
+  func: GRPCCall,
+  limiter: ConcurrencyLimiter,
+): GRPCCall {
+  return ((
+    argument: {},
+    metadata: {},
+    options: {deadline?: Date},
+    callback: APICallback,
+  ) => {
+    let canceller: GRPCCallResult | undefined;
+    let queued = false;
+    // The options object is shared by the attempts: keep this deadline.
+    const deadline = options?.deadline;
+    const leaveQueue = limiter.acquire((err, release) => {
+      if (err) {
+        callback(err);
+        return;
+      }
+      const sentRightAway = !queued;
+      canceller = (func as UnaryCall)(
+        argument,
+        metadata,
+        sentRightAway ? options : {...options, deadline},
+        (err, response, next, rawResponse) => {
+          release!();
+          callback(err, response, next, rawResponse);
+        },
+      );
+      if (canceller instanceof Promise) {
+        canceller.catch(err => {
+          release!();
+          if (!sentRightAway) {
+            callback(new GoogleError(err));
+          }
+        });
+      }
+    }, deadline?.getTime());
+    queued = true;
+    if (canceller) {
+      // Sent right away: the caller handles the canceller as usual.
+      return canceller;
+    }
+    return {
+      cancel() {
+        if (canceller) {
+          canceller.cancel();
+        } else if (leaveQueue()) {
+          const error = new GoogleError('cancelled');
+          error.code = Status.CANCELLED;
+          callback(error);
+        }
+      },
+    };
+  }) as GRPCCall;
+}
@@ -18,7 +18,10 @@
  * Provides function wrappers that implement page streaming and retrying.
  */
 
+import {withAbortSignal} from './abortSignal';
 import {createAPICaller} from './apiCaller';
+import {withCircuitBreaker} from './circuitBreaker';
+import {withConcurrencyLimiter} from './concurrencyLimiter';
 import {
   APICallback,
   GaxCall,
@@ -27,11 +30,23 @@ import {
   RequestType,
   SimpleCallbackFunction,
 } from './apitypes';
+import {BundleApiCaller} from './bundlingCalls/bundleApiCaller';
+import {applyDeadline} from './deadline';
 import {Descriptor} from './descriptor';
 import {CallOptions, CallSettings, convertRetryOptions} from './gax';
+import {GoogleError} from './googleError';
+import {withInterceptors} from './interceptors';
+import {startCallLog} from './logging';
+import {MeteredCall, meterCall} from './metrics';
+import {withCallHooks} from './normalCalls/callHooks';
+import {hedged} from './normalCalls/hedging';
 import {retryable} from './normalCalls/retries';
+import {withRateLimiter} from './rateLimiter';
 import {addTimeoutArg} from './normalCalls/timeout';
+import {applyRequestId, withRequestId, withStreamRequestId} from './requestId';
 import {StreamingApiCaller} from './streamingCalls/streamingApiCaller';
+import {TracedCall} from './tracing';
+import {makeUUID} from './util';
 import {warn} from './warnings';
 
 /**
@@ -88,6 +103,35 @@ export function createApiCall(
       thisSettings = settings.merge(callOptions);
     }
 
+    let deadlineError: GoogleError | undefined;
+    try {
+      thisSettings = applyDeadline(thisSettings);
+    } catch (err) {
+      deadlineError = err as GoogleError;
+    }
+
+    let requestId: string | undefined;
+    if (thisSettings.requestId) {
+      requestId = makeUUID();
+      thisSettings = applyRequestId(thisSettings, requestId);
+    }
+
+    let tracedCall: TracedCall | undefined;
+    if (thisSettings.tracer) {
+      tracedCall = thisSettings.tracer.startCall(thisSettings, descriptor);
+      if (tracedCall) {
+        thisSettings = tracedCall.settings;
+      }
+    }
+
+    let meteredCall: MeteredCall | undefined;
+    if (thisSettings.metrics) {
+      meteredCall = meterCall(thisSettings.metrics, thisSettings, descriptor);
+      thisSettings = meteredCall.settings;
+    }
+
+    const loggedCall = startCallLog(thisSettings, request);
+
     // special case: if bundling is disabled for this one call,
     // use default API caller instead
     if (settings.isBundling && !thisSettings.isBundling) {
@@ -95,13 +139,32 @@ export function createApiCall(
     }
 
     const ongoingCall = currentApiCaller.init(callback);
+    tracedCall?.watch(ongoingCall);
+    meteredCall?.watch(ongoingCall);
+    loggedCall?.watch(ongoingCall);
     funcPromise
       .then((func: GRPCCall) => {
+        if (deadlineError) {
+          throw deadlineError;
+        }
         // Initially, the function is just what gRPC server stub contains.
         func = currentApiCaller.wrap(func);
 
         const streaming = (currentApiCaller as StreamingApiCaller).descriptor
           ?.streaming;
+        if (streaming && requestId) {
+          func = withStreamRequestId(func, requestId);
+        }
+        if (!streaming && thisSettings.concurrencyLimiter) {
+          func = withConcurrencyLimiter(func, thisSettings.concurrencyLimiter);
+        }
+        if (!streaming && thisSettings.interceptors?.length) {
+          func = withInterceptors(func, thisSettings.interceptors, {
+            apiName: thisSettings.apiName,
+            methodName: thisSettings.methodName,
+            descriptor,
+          });
+        }
 
         const retry = thisSettings.retry;
 
@@ -123,6 +186,16 @@ export function createApiCall(
             );
           }
         }
+        if (!streaming && thisSettings.hedging) {
+          return hedged(
+            func,
+            thisSettings.hedging,
+            thisSettings.timeout,
+            thisSettings.otherArgs as GRPCCallOtherArgs,
+            thisSettings.hooks,
+            thisSettings.rateLimiter ?? undefined,
+          );
+        }
         if (!streaming && retry) {
           if (retry.shouldRetryFn) {
             throw new Error(
@@ -142,16 +215,43 @@ export function createApiCall(
               thisSettings.retry!,
               thisSettings.otherArgs as GRPCCallOtherArgs,
               thisSettings.apiName,
+              thisSettings.retryBudget,
+              thisSettings.hooks,
+              thisSettings.rateLimiter ?? undefined,
+              thisSettings.methodName,
             );
           }
         }
-        return addTimeoutArg(
+        let apiCall = addTimeoutArg(
           func,
           thisSettings.timeout,
           thisSettings.otherArgs as GRPCCallOtherArgs,
         );
+        if (!streaming && thisSettings.rateLimiter) {
+          apiCall = withRateLimiter(apiCall, thisSettings.rateLimiter);
+        }
+        return !streaming && thisSettings.hooks
+          ? withCallHooks(apiCall, thisSettings.hooks)
+          : apiCall;
       })
       .then((apiCall: SimpleCallbackFunction) => {
+        if (
+          thisSettings.circuitBreaker &&
+          !(currentApiCaller instanceof StreamingApiCaller)
+        ) {
+          apiCall = withCircuitBreaker(apiCall, thisSettings.circuitBreaker);
+        }
+        // Streams and bundled elements are aborted by their API callers.
+        if (
+          thisSettings.signal &&
+          !(currentApiCaller instanceof StreamingApiCaller) &&
+          !(currentApiCaller instanceof BundleApiCaller)
+        ) {
+          apiCall = withAbortSignal(apiCall, thisSettings.signal);
+        }
+        if (requestId && !(currentApiCaller instanceof StreamingApiCaller)) {
+          apiCall = withRequestId(apiCall, requestId);
+        }
         // After adding retries / timeouts, the call function becomes simpler:
         // it only accepts request and callback.
         currentApiCaller.call(apiCall, request, thisSettings, ongoingCall);
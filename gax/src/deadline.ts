@@ -0,0 +1,143 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type {AsyncLocalStorage} from 'async_hooks';
+
+import {isNodeJS} from './featureDetection';
+import {CallSettings, createRetryOptions} from './gax';
+import {GoogleError} from './googleError';
+import {Status} from './status';
+
+interface DeadlineContext {
+  // the absolute deadline, in milliseconds since the epoch
+  deadline: number;
+}
+
+let storage: AsyncLocalStorage<DeadlineContext> | undefined;
+
+function getStorage(): AsyncLocalStorage<DeadlineContext> {
+  if (!storage) {
+    if (!isNodeJS()) {
+      throw new Error('Deadline propagation is only supported in Node.js.');
+    }
+    // Loaded lazily, so that the browser bundle does not need async_hooks.
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const asyncHooks = require('async_hooks');
+    storage =
+      new asyncHooks.AsyncLocalStorage() as AsyncLocalStorage<DeadlineContext>;
+  }
+  return storage;
+}
+
+/**
+ * Runs a function with a deadline that applies to all the API calls made
+ * within it, including the asynchronous ones. Each call clamps its timeouts
+ * to the time left before the deadline, and fails with DEADLINE_EXCEEDED,
+ * without being sent, once the deadline has passed.
+ *
+ * Deadlines can be nested: the inner one never extends the outer one.
+ *
+ * @example
+ * app.get('/books', (req, res) =>
+ *   gax.withDeadline(5000, async () => {
+ *     const [books] = await client.listBooks(request);
+ *     res.send(books);
+ *   })
+ * );
+ *
+ * @param {number} timeoutMillis - the time, in milliseconds, given to the
+ *   calls made by fn.
+ * @param {function} fn - the function to run.
+ * @return {*} the value returned by fn.
+ */
+export function withDeadline<T>(timeoutMillis: number, fn: () => T): T {
+  if (!(timeoutMillis >= 0)) {
+    throw new Error('timeoutMillis should be a non-negative number');
+  }
+  const storage = getStorage();
+  let deadline = Date.now() + timeoutMillis;
+  const outer = storage.getStore();
+  if (outer) {
+    deadline = Math.min(deadline, outer.deadline);
+  }
+  return storage.run({deadline}, fn);
+}
+
+/**
+ * Returns the time left before the deadline set by {@link withDeadline}.
+ *
+ * @return {number|undefined} the remaining time in milliseconds, or undefined
+ *   when called outside of {@link withDeadline}.
+ */
+export function getRemainingDeadlineMillis(): number | undefined {
+  const context = storage?.getStore();
+  return context ? context.deadline - Date.now() : undefined;
+}
+
+/**
+ * Clamps the timeouts of a call to the time left before the deadline set by
+ * {@link withDeadline}.
+ *
+ * @private
+ *
+ * @param {CallSettings} settings - the settings of the call. They are not
+ *   modified.
+ * @return {CallSettings} the clamped settings.
+ * @throws {GoogleError} with the DEADLINE_EXCEEDED code if the deadline has
+ *   already passed.
+ */
+export function applyDeadline(settings: CallSettings): CallSettings {
+  const remaining = getRemainingDeadlineMillis();
+  if (remaining === undefined) {
+    return settings;
+  }
+  if (remaining <= 0) {
+    const error = new GoogleError(
+      `Deadline exceeded before the call to API ${settings.apiName} was sent.`,
+    );
+    error.code = Status.DEADLINE_EXCEEDED;
+    throw error;
+  }
+  const clamped = new CallSettings(settings);
+  clamped.timeout = Math.min(settings.timeout, remaining);
+  const retry = clamped.retry;
+  if (retry) {
+    const backoffSettings = {...retry.backoffSettings};
+    for (const key of [
+      'initialRpcTimeoutMillis',
+      'maxRpcTimeoutMillis',
+    ] as const) {
+      if (backoffSettings[key]) {
+        backoffSettings[key] = Math.min(backoffSettings[key]!, remaining);
+      }
+    }
+    // totalTimeoutMillis and maxRetries cannot be set together: with
+    // maxRetries, the retries check the deadline themselves.
+    if (!backoffSettings.maxRetries) {
+      backoffSettings.totalTimeoutMillis = Math.min(
+        backoffSettings.totalTimeoutMillis || Infinity,
+        remaining,
+      );
+    }
+    clamped.retry = createRetryOptions(
+      retry.retryCodes,
+      backoffSettings,
+      retry.shouldRetryFn,
+      retry.getResumptionRequestFn,
+    );
+  }
+  return clamped;
+}
@@ -22,7 +22,11 @@ import * as routingHeader from './routingHeader';
 import {Status} from './status';
 import {GoogleAuth, AuthClient} from 'google-auth-library';
 import {OperationsClientBuilder} from './operationsClient';
-import type {GrpcClientOptions, ClientStubOptions} from './grpc';
+import type {
+  GrpcClientOptions,
+  ClientStubOptions,
+  ConstructSettingsOptions,
+} from './grpc';
 import {GaxCall, GRPCCall} from './apitypes';
 import {Descriptor, StreamDescriptor} from './descriptor';
 import {createApiCall as _createApiCall} from './createApiCall';
@@ -32,6 +36,15 @@ import {isNodeJS} from './featureDetection';
 import {generateServiceStub} from './fallbackServiceStub';
 import {StreamType} from './streamingCalls/streaming';
 import {toLowerCamelCase} from './util';
+import {RateLimiter} from './rateLimiter';
+import {RetryBudget} from './retryBudget';
+import {CircuitBreakerRegistry} from './circuitBreaker';
+import {ConcurrencyLimiterRegistry} from './concurrencyLimiter';
+import {Interceptor} from './interceptors';
+import {MetricsRecorder} from './metrics';
+import {Redactor} from './redaction';
+import {CallTracer} from './tracing';
+import {GrpcServiceConfig} from './serviceConfig';
 import {google} from '../protos/http';
 import * as IamProtos from '../protos/iam_service';
 import * as LocationProtos from '../protos/locations';
@@ -44,6 +57,8 @@ export {
   CallSettings,
   constructSettings,
   RetryOptions,
+  HedgingOptions,
+  RequestIdOptions,
   createDefaultBackoffSettings,
 } from './gax';
 export const version = require('../../package.json').version + '-fallback';
@@ -62,6 +77,61 @@ export {IamClient} from './iamService';
 export {LocationsClient} from './locationService';
 
 export {makeUUID} from './util';
+export {RetryBudget, RetryBudgetOptions} from './retryBudget';
+export {
+  AdaptiveRateLimiter,
+  AdaptiveRateLimiterOptions,
+  RateLimiter,
+  RateLimiterOptions,
+} from './rateLimiter';
+export {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  CircuitBreakerRegistry,
+  CircuitState,
+  CircuitStateChange,
+} from './circuitBreaker';
+export {
+  ConcurrencyLimiter,
+  ConcurrencyLimiterOptions,
+  ConcurrencyLimiterRegistry,
+  ConcurrencyLimitOptions,
+  ConcurrencyStats,
+} from './concurrencyLimiter';
+export {
+  InterceptedMethod,
+  Interceptor,
+  InterceptorContext,
+  InterceptorNext,
+  InterceptorResult,
+} from './interceptors';
+export {
+  CallTracer,
+  OpenTelemetryApi,
+  Span,
+  SpanAttributeValue,
+  Tracer,
+  TracingOptions,
+} from './tracing';
+export {
+  Counter,
+  Histogram,
+  Meter,
+  MetricAttributes,
+  MetricsRecorder,
+  OpenTelemetryMetricsApi,
+  OpenTelemetryMetricsOptions,
+  OpenTelemetryMetricsRecorder,
+} from './metrics';
+export {RedactionMode, RedactionOptions, Redactor} from './redaction';
+export {
+  GrpcHedgingPolicy,
+  GrpcMethodConfig,
+  GrpcMethodName,
+  GrpcRetryPolicy,
+  GrpcServiceConfig,
+  validateServiceConfig,
+} from './serviceConfig';
 
 export const defaultToObjectOptions = {
   keepCase: false,
@@ -94,6 +164,20 @@ export class GrpcClient {
   httpRules?: Array<google.api.IHttpRule>;
   numericEnums: boolean;
   minifyJson: boolean;
+  retryBudget?: RetryBudget;
+  circuitBreakers?: CircuitBreakerRegistry;
+  rateLimiter?: RateLimiter;
+  concurrencyLimiters?: ConcurrencyLimiterRegistry;
+  interceptors?: Interceptor[];
+  /**
+   * The fetch sending the requests of the stubs, e.g. an instrumented fetch
+   * or undici's with a tuned dispatcher. The auth headers are still set by
+   * the auth client.
+   */
+  fetchImplementation?: typeof fetch;
+  tracer?: CallTracer;
+  metrics?: MetricsRecorder;
+  redactor?: Redactor;
 
   /**
    * In rare cases users might need to deallocate all memory consumed by loaded protos.
@@ -142,6 +226,31 @@ export class GrpcClient {
     this.httpRules = (options as GrpcClientOptions).httpRules;
     this.numericEnums = (options as GrpcClientOptions).numericEnums ?? false;
     this.minifyJson = (options as GrpcClientOptions).minifyJson ?? false;
+    this.retryBudget = (options as GrpcClientOptions).retryBudget;
+    this.rateLimiter = (options as GrpcClientOptions).rateLimiter;
+    this.interceptors = (options as GrpcClientOptions).interceptors;
+    this.fetchImplementation = (
+      options as GrpcClientOptions
+    ).fetchImplementation;
+    this.metrics = (options as GrpcClientOptions).metrics;
+    const logRedaction = (options as GrpcClientOptions).logRedaction;
+    if (logRedaction) {
+      this.redactor = new Redactor(logRedaction);
+    }
+    const tracing = (options as GrpcClientOptions).tracing;
+    if (tracing) {
+      this.tracer = new CallTracer(tracing === true ? {} : tracing, 'http');
+    }
+    const circuitBreaker = (options as GrpcClientOptions).circuitBreaker;
+    if (circuitBreaker) {
+      this.circuitBreakers = new CircuitBreakerRegistry(circuitBreaker);
+    }
+    const concurrencyLimit = (options as GrpcClientOptions).concurrencyLimit;
+    if (concurrencyLimit) {
+      this.concurrencyLimiters = new ConcurrencyLimiterRegistry(
+        concurrencyLimit,
+      );
+    }
   }
 
   /**
@@ -193,16 +302,22 @@ export class GrpcClient {
    * Most of parameters are common among constructSettings, please take a look.
    * @param {string} serviceName - The fullly-qualified name of the service.
    * @param {Object} clientConfig - A dictionary of the client config.
-   * @param {Object} configOverrides - A dictionary of overriding configs.
+   * @param {Object} configOverrides - A dictionary of overriding configs, or
+   *   a gRPC service config.
    * @param {Object} headers - A dictionary of additional HTTP header name to
    *   its value.
+   * @param {Object=} options - Additional settings of the methods.
+   * @param {RequestIdOptions|boolean=} options.requestId - When specified,
+   *   each call sends a request ID and the number of its attempt in its
+   *   headers. Set it to true to use the default header names.
    * @return {Object} A mapping of method names to CallSettings.
    */
   constructSettings(
     serviceName: string,
     clientConfig: gax.ClientConfig,
-    configOverrides: gax.ClientConfig,
+    configOverrides: gax.ClientConfig | GrpcServiceConfig,
     headers: OutgoingHttpHeaders,
+    options: ConstructSettingsOptions = {},
   ) {
     function buildMetadata(abTests: {}, moreHeaders: OutgoingHttpHeaders) {
       const metadata: OutgoingHttpHeaders = {};
@@ -261,13 +376,26 @@ export class GrpcClient {
       }
       return metadata;
     }
-    return gax.constructSettings(
+    const settings = gax.constructSettings(
       serviceName,
       clientConfig,
       configOverrides,
       Status,
       {metadataBuilder: buildMetadata},
+      {
+        retryBudget: this.retryBudget,
+        rateLimiter: this.rateLimiter,
+        interceptors: this.interceptors,
+        tracer: this.tracer,
+        metrics: this.metrics,
+        redactor: this.redactor,
+        requestId:
+          options.requestId === true ? {} : options.requestId || undefined,
+      },
     );
+    this.circuitBreakers?.attach(serviceName, settings);
+    this.concurrencyLimiters?.attach(serviceName, settings);
+    return settings;
   }
 
   /**
@@ -353,6 +481,7 @@ export class GrpcClient {
       decoder,
       this.numericEnums,
       this.minifyJson,
+      this.fetchImplementation,
     );
 
     return serviceStub;
@@ -448,7 +577,7 @@ export * as protobufMinimal from 'protobufjs/minimal';
 
 export {warn} from './warnings';
 export {Operation, operation} from './longRunningCalls/longrunning';
-export {GoogleError} from './googleError';
+export {AttemptRecord, GoogleError, QuotaViolation} from './googleError';
 
 // Different environments or bundlers may or may not respect "browser" field
 // in package.json (e.g. Electron does not respect it, but if you run the code
@@ -104,6 +104,7 @@ export function generateServiceStub(
   ) => {},
   numericEnums: boolean,
   minifyJson: boolean,
+  fetchImplementation?: typeof fetch,
 ) {
   const serviceStub: FallbackServiceStub = {
     // close method should close all cancel controllers. If this feature request in the future, we can have a cancelControllerFactory that tracks created cancel controllers, and abort them all in close method.
@@ -163,6 +164,10 @@ export function generateServiceStub(
         responseType: 'stream', // ensure gaxios returns the data directly so that it handle data/streams itself
         agent: agentOption || undefined,
       };
+      if (fetchImplementation) {
+        // The auth client still sets the auth headers of the request.
+        fetchRequest.fetchImplementation = fetchImplementation;
+      }
 
       if (
         fetchParameters.method === 'GET' ||
@@ -25,6 +25,20 @@ import {BundleOptions} from './bundlingCalls/bundleExecutor';
 import {toLowerCamelCase} from './util';
 import {Status} from './status';
 import {RequestType} from './apitypes';
+import {RetryBudget} from './retryBudget';
+import {CircuitBreaker} from './circuitBreaker';
+import {ConcurrencyLimiter} from './concurrencyLimiter';
+import {Interceptor} from './interceptors';
+import {MetricsRecorder} from './metrics';
+import {Redactor} from './redaction';
+import {CallTracer} from './tracing';
+import {RateLimiter} from './rateLimiter';
+import {
+  GrpcServiceConfig,
+  isGrpcServiceConfig,
+  methodOptionsFromServiceConfig,
+  validateServiceConfig,
+} from './serviceConfig';
 
 /**
  * Encapsulates the overridable settings for a particular API call.
@@ -54,6 +68,35 @@ import {RequestType} from './apitypes';
  * @property {boolean=} isBundling - If set to false and the call is configured
  *   for bundling, bundling is not performed.
  * @property {BackoffSettings=} longrunning - BackoffSettings used for polling.
+ * @property {RetryBudget=} retryBudget - a budget shared with other calls
+ *   that limits the number of retries. When it is exhausted, the call fails
+ *   without retrying.
+ * @property {HedgingOptions=} hedging - sends parallel attempts of a unary
+ *   call when it is slow to answer. Only use it for idempotent methods.
+ * @property {CircuitBreaker=} circuitBreaker - the breaker that fails unary
+ *   calls right away while the method is failing. When set to null, the call
+ *   is not guarded.
+ * @property {CallHooks=} hooks - functions called when the attempts of the
+ *   call start and fail, and when the call finishes.
+ * @property {AbortSignal=} signal - aborts the call when it is aborted: the
+ *   call is cancelled and fails with CANCELLED.
+ * @property {RequestIdOptions=} requestId - sends a request ID and an attempt
+ *   number with the call. When set to null, they are not sent.
+ * @property {RateLimiter=} rateLimiter - a limiter shared with other calls
+ *   that delays the attempts of unary calls over its rate. When set to null,
+ *   the call is not limited.
+ * @property {ConcurrencyLimiter=} concurrencyLimiter - a limiter shared with
+ *   other calls that delays the attempts of unary calls while too many calls
+ *   are in flight. When set to null, the call is not limited.
+ * @property {Interceptor[]=} interceptors - functions run around each
+ *   attempt of unary calls, inside those of the client. When set to null,
+ *   no interceptor is run, not even those of the client.
+ * @property {CallTracer=} tracer - traces the call and its attempts with
+ *   OpenTelemetry. When set to null, the call is not traced.
+ * @property {MetricsRecorder=} metrics - records the metrics of the call.
+ *   When set to null, they are not recorded.
+ * @property {Redactor=} redactor - redacts the payloads of the call in the
+ *   logs of gax. Without it, only the built-in rules apply.
  * @example
  * // suppress bundling for bundled method.
  * api.bundlingMethod(
@@ -145,9 +188,16 @@ export interface RetryRequestOptions {
  * @property {number} totalTimeoutMillis - the total time, in milliseconds,
  *   starting from when the initial request is sent, after which an error will
  *   be returned, regardless of the retrying attempts made meanwhile.
+ * @property {Jitter=} jitter - the randomization applied to the delay time
+ *   between requests. See {@link Jitter}.
+ * @property {number=} maxAttempts - the maximum number of attempts, the first
+ *   one included. Set along with ``maxRetries`` by the retry policies of gRPC
+ *   service configs, it takes precedence for streaming calls, whose
+ *   ``maxRetries`` does not count the first attempt.
  */
 export interface BackoffSettings {
   maxRetries?: number;
+  maxAttempts?: number;
   initialRetryDelayMillis: number;
   retryDelayMultiplier: number;
   maxRetryDelayMillis: number;
@@ -155,6 +205,200 @@ export interface BackoffSettings {
   maxRpcTimeoutMillis?: number | null;
   totalTimeoutMillis?: number | null;
   rpcTimeoutMultiplier?: number | null;
+  jitter?: Jitter;
+}
+
+/**
+ * A custom jitter strategy.
+ * @callback JitterFunction
+ * @param {number} delay - the exponential backoff delay, in milliseconds.
+ * @param {number} previousSleep - the previous time slept, in milliseconds,
+ *   or the initial delay before the first retry.
+ * @return {number} the time to sleep before the next request, in milliseconds.
+ */
+export type JitterFunction = (delay: number, previousSleep: number) => number;
+
+/**
+ * The randomization applied to the delay between requests:
+ * - `'none'` sleeps for exactly the exponential backoff delay;
+ * - `'full'` sleeps for a random time between 0 and the delay;
+ * - `'equal'` sleeps for half the delay plus a random time up to the other
+ *   half;
+ * - `'decorrelated'` sleeps for a random time between the initial delay and
+ *   three times the previous sleep, capped by the maximum delay;
+ * - a {@link JitterFunction} computes the sleep time itself.
+ *
+ * Retries of unary and server streaming calls default to `'full'`,
+ * long-running operation polling defaults to `'none'`.
+ * @typedef {(string|JitterFunction)} Jitter
+ */
+export type Jitter =
+  | 'none'
+  | 'full'
+  | 'equal'
+  | 'decorrelated'
+  | JitterFunction;
+
+const JITTER_STRATEGIES = ['none', 'full', 'equal', 'decorrelated'];
+
+/**
+ * Checks a jitter strategy, so that an unknown one fails when the settings
+ * are built rather than when a retry is scheduled.
+ *
+ * @private
+ *
+ * @param {Jitter=} jitter - the strategy to check.
+ * @throws {Error} if the strategy is neither a known name nor a function.
+ */
+export function validateJitter(jitter?: Jitter) {
+  if (
+    jitter !== undefined &&
+    typeof jitter !== 'function' &&
+    !JITTER_STRATEGIES.includes(jitter)
+  ) {
+    throw new Error(`Unknown jitter strategy: ${jitter}`);
+  }
+}
+
+/**
+ * Computes the time to sleep before the next request, applying the jitter
+ * strategy of the backoff settings to the exponential backoff delay.
+ *
+ * @private
+ *
+ * @param {BackoffSettings} backoffSettings - the backoff settings of the call.
+ * @param {number} delay - the exponential backoff delay, in milliseconds.
+ * @param {number} previousSleep - the previous time slept, in milliseconds.
+ * @param {Jitter} defaultJitter - the strategy used if the backoff settings
+ *   do not set one.
+ * @return {number} the time to sleep, in milliseconds.
+ */
+export function computeRetryDelay(
+  backoffSettings: BackoffSettings,
+  delay: number,
+  previousSleep: number,
+  defaultJitter: Jitter = 'full',
+): number {
+  const jitter = backoffSettings.jitter ?? defaultJitter;
+  if (typeof jitter === 'function') {
+    return Math.max(jitter(delay, previousSleep), 0);
+  }
+  switch (jitter) {
+    case 'none':
+      return delay;
+    case 'full':
+      return Math.random() * delay;
+    case 'equal':
+      return delay / 2 + (Math.random() * delay) / 2;
+    case 'decorrelated': {
+      const base = backoffSettings.initialRetryDelayMillis;
+      const upper = Math.max(previousSleep * 3, base);
+      return Math.min(
+        base + Math.random() * (upper - base),
+        backoffSettings.maxRetryDelayMillis,
+      );
+    }
+    default:
+      throw new Error(`Unknown jitter strategy: ${jitter}`);
+  }
+}
+
+/**
+ * Per-call configurable settings for hedging, i.e. sending several attempts
+ * of the same unary call in parallel and keeping the first successful
+ * response. Hedging replaces the retry settings of the call, and is only
+ * safe for idempotent methods.
+ * @typedef {Object} HedgingOptions
+ * @property {number} maxAttempts - the maximum number of attempts sent,
+ *   including the first one.
+ * @property {number} hedgingDelayMillis - the delay, in milliseconds, after
+ *   which a new attempt is sent if none of the pending ones answered.
+ * @property {number[]=} nonFatalCodes - the status codes of the errors that
+ *   do not end the call: another attempt is sent right away instead.
+ *   Any other error is returned, and cancels the pending attempts.
+ */
+export interface HedgingOptions {
+  maxAttempts: number;
+  hedgingDelayMillis: number;
+  nonFatalCodes?: number[];
+}
+
+/**
+ * Configures the request ID sent with each call, to correlate its attempts in
+ * the server logs. Each call gets a new ID, made by {@link makeUUID}, sent
+ * with every attempt along with the number of the attempt. The ID is also
+ * set on the errors of the call and on the events of its {@link CallHooks}.
+ * @typedef {Object} RequestIdOptions
+ * @property {string=} requestIdHeader - the header carrying the ID of the
+ *   call. Defaults to `x-goog-request-id`.
+ * @property {string=} attemptHeader - the header carrying the number of the
+ *   attempt, starting at 1. Defaults to `x-goog-request-attempt`.
+ */
+export interface RequestIdOptions {
+  requestIdHeader?: string;
+  attemptHeader?: string;
+}
+
+/**
+ * The attempt passed to {@link CallHooks}.
+ * @typedef {Object} AttemptStartEvent
+ * @property {number} attempt - the number of the attempt, starting at 1.
+ * @property {string=} requestId - the request ID of the call, if it is sent.
+ */
+export interface AttemptStartEvent {
+  attempt: number;
+  requestId?: string;
+}
+
+/**
+ * The failed attempt passed to {@link CallHooks}.
+ * @typedef {Object} AttemptFailureEvent
+ * @property {number} attempt - the number of the attempt, starting at 1.
+ * @property {GoogleError} error - the error of the attempt.
+ * @property {number=} delayMillis - the delay before the next attempt, when
+ *   the call is retried.
+ * @property {string=} requestId - the request ID of the call, if it is sent.
+ */
+export interface AttemptFailureEvent {
+  attempt: number;
+  error: GoogleError;
+  delayMillis?: number;
+  requestId?: string;
+}
+
+/**
+ * The outcome of a call passed to {@link CallHooks}.
+ * @typedef {Object} CallFinishEvent
+ * @property {number} attempts - the number of attempts made.
+ * @property {GoogleError=} error - the error of the call, null if it
+ *   succeeded.
+ * @property {string=} requestId - the request ID of the call, if it is sent.
+ */
+export interface CallFinishEvent {
+  attempts: number;
+  error: GoogleError | null;
+  requestId?: string;
+}
+
+/**
+ * Functions called during the lifecycle of a call, e.g. to log or meter its
+ * retries. They are called for unary calls, server streaming calls retried
+ * by gax, and each page of paged calls. For long-running operations, they
+ * are called for the call starting the operation, then for its polling:
+ * each poll is an attempt, and polling finishes when the operation
+ * completes.
+ * @typedef {Object} CallHooks
+ * @property {function(AttemptStartEvent)=} onAttemptStart - called when an
+ *   attempt is sent.
+ * @property {function(AttemptFailureEvent)=} onAttemptFailure - called when
+ *   an attempt fails, whether or not the call is retried.
+ * @property {function(CallFinishEvent)=} onCallFinish - called once, when
+ *   the call succeeds or fails.
+ */
+export interface CallHooks {
+  onAttemptStart?: (event: AttemptStartEvent) => void;
+  onAttemptFailure?: (event: AttemptFailureEvent) => void;
+  onCallFinish?: (event: CallFinishEvent) => void;
 }
 
 export interface CallOptions {
@@ -169,7 +413,20 @@ export interface CallOptions {
   isBundling?: boolean;
   longrunning?: BackoffSettings;
   apiName?: string;
+  methodName?: string;
   retryRequestOptions?: RetryRequestOptions;
+  retryBudget?: RetryBudget;
+  hedging?: HedgingOptions | null;
+  circuitBreaker?: CircuitBreaker | null;
+  hooks?: CallHooks;
+  signal?: AbortSignal;
+  requestId?: RequestIdOptions | null;
+  rateLimiter?: RateLimiter | null;
+  concurrencyLimiter?: ConcurrencyLimiter | null;
+  interceptors?: Interceptor[] | null;
+  tracer?: CallTracer | null;
+  metrics?: MetricsRecorder | null;
+  redactor?: Redactor;
 }
 
 export class CallSettings {
@@ -185,7 +442,20 @@ export class CallSettings {
   isBundling: boolean;
   longrunning?: BackoffSettings;
   apiName?: string;
+  methodName?: string;
   retryRequestOptions?: RetryRequestOptions;
+  retryBudget?: RetryBudget;
+  hedging?: HedgingOptions | null;
+  circuitBreaker?: CircuitBreaker | null;
+  hooks?: CallHooks;
+  signal?: AbortSignal;
+  requestId?: RequestIdOptions | null;
+  rateLimiter?: RateLimiter | null;
+  concurrencyLimiter?: ConcurrencyLimiter | null;
+  interceptors?: Interceptor[] | null;
+  tracer?: CallTracer | null;
+  metrics?: MetricsRecorder | null;
+  redactor?: Redactor;
 
   /**
    * @param {Object} settings - An object containing parameters of this settings.
@@ -202,6 +472,28 @@ export class CallSettings {
    * in the page streaming request.
    * @param {Object} settings.otherArgs - Additional arguments to be passed to
    *   the API calls.
+   * @param {RetryBudget} settings.retryBudget - The budget limiting the
+   *   retries of this call, usually shared by all the methods of a client.
+   * @param {HedgingOptions} settings.hedging - The configuration for sending
+   *   parallel attempts of this call. If set, retries are not used.
+   * @param {CircuitBreaker} settings.circuitBreaker - The breaker guarding
+   *   the method of this call.
+   * @param {CallHooks} settings.hooks - The functions called during the
+   *   lifecycle of this call.
+   * @param {AbortSignal} settings.signal - The signal aborting this call.
+   * @param {RequestIdOptions} settings.requestId - The headers carrying the
+   *   request ID and the attempt number of this call.
+   * @param {RateLimiter} settings.rateLimiter - The limiter delaying the
+   *   attempts of this call.
+   * @param {ConcurrencyLimiter} settings.concurrencyLimiter - The limiter
+   *   bounding the number of calls in flight with this one.
+   * @param {Interceptor[]} settings.interceptors - The functions run around
+   *   each attempt of this call.
+   * @param {CallTracer} settings.tracer - The tracer of this call.
+   * @param {MetricsRecorder} settings.metrics - The recorder of the metrics
+   *   of this call.
+   * @param {Redactor} settings.redactor - The redactor of the payloads of
+   *   this call in the logs.
    *
    * @constructor
    */
@@ -218,7 +510,22 @@ export class CallSettings {
     this.longrunning =
       'longrunning' in settings ? settings.longrunning : undefined;
     this.apiName = settings.apiName ?? undefined;
+    this.methodName = settings.methodName ?? undefined;
     this.retryRequestOptions = settings.retryRequestOptions;
+    this.retryBudget = settings.retryBudget;
+    this.hedging = settings.hedging;
+    this.circuitBreaker = settings.circuitBreaker;
+    this.hooks = settings.hooks;
+    this.signal = settings.signal;
+    this.requestId = settings.requestId;
+    this.rateLimiter = settings.rateLimiter;
+    this.concurrencyLimiter = settings.concurrencyLimiter;
+    this.interceptors = settings.interceptors;
+    this.tracer = settings.tracer;
+    this.metrics = settings.metrics;
+    this.redactor = settings.redactor;
+    validateJitter(this.retry?.backoffSettings?.jitter);
+    validateJitter(this.longrunning?.jitter);
   }
 
   /**
@@ -242,6 +549,18 @@ export class CallSettings {
     let longrunning = this.longrunning;
     let apiName = this.apiName;
     let retryRequestOptions = this.retryRequestOptions;
+    let retryBudget = this.retryBudget;
+    let hedging = this.hedging;
+    let circuitBreaker = this.circuitBreaker;
+    let hooks = this.hooks;
+    let signal = this.signal;
+    let requestId = this.requestId;
+    let rateLimiter = this.rateLimiter;
+    let concurrencyLimiter = this.concurrencyLimiter;
+    let interceptors = this.interceptors;
+    let tracer = this.tracer;
+    let metrics = this.metrics;
+    let redactor = this.redactor;
 
     // If the user provides a timeout to the method, that timeout value will be used
     // to override the backoff settings.
@@ -254,7 +573,10 @@ export class CallSettings {
     if (retry?.retryCodes) {
       retry!.backoffSettings.initialRpcTimeoutMillis = timeout;
       retry!.backoffSettings.maxRpcTimeoutMillis = timeout;
-      retry!.backoffSettings.totalTimeoutMillis = timeout;
+      // totalTimeoutMillis and maxRetries cannot be set together.
+      if (!retry!.backoffSettings.maxRetries) {
+        retry!.backoffSettings.totalTimeoutMillis = timeout;
+      }
     }
 
     if ('retry' in options) {
@@ -286,6 +608,7 @@ export class CallSettings {
     if ('maxRetries' in options && options.maxRetries !== undefined) {
       retry!.backoffSettings!.maxRetries = options.maxRetries;
       delete retry!.backoffSettings!.totalTimeoutMillis;
+      delete retry!.backoffSettings!.maxAttempts;
     }
 
     if ('longrunning' in options) {
@@ -297,6 +620,44 @@ export class CallSettings {
     if ('retryRequestOptions' in options) {
       retryRequestOptions = options.retryRequestOptions;
     }
+    if ('retryBudget' in options) {
+      retryBudget = options.retryBudget;
+    }
+    if ('hedging' in options) {
+      hedging = options.hedging;
+    }
+    if ('circuitBreaker' in options) {
+      circuitBreaker = options.circuitBreaker;
+    }
+    if ('hooks' in options) {
+      hooks = options.hooks;
+    }
+    if ('signal' in options) {
+      signal = options.signal;
+    }
+    if ('requestId' in options) {
+      requestId = options.requestId;
+    }
+    if ('rateLimiter' in options) {
+      rateLimiter = options.rateLimiter;
+    }
+    if ('concurrencyLimiter' in options) {
+      concurrencyLimiter = options.concurrencyLimiter;
+    }
+    if ('interceptors' in options) {
+      interceptors = options.interceptors
+        ? (interceptors ?? []).concat(options.interceptors)
+        : options.interceptors;
+    }
+    if ('tracer' in options) {
+      tracer = options.tracer;
+    }
+    if ('metrics' in options) {
+      metrics = options.metrics;
+    }
+    if ('redactor' in options) {
+      redactor = options.redactor;
+    }
 
     return new CallSettings({
       timeout,
@@ -308,7 +669,20 @@ export class CallSettings {
       otherArgs,
       isBundling,
       apiName,
+      methodName: this.methodName,
       retryRequestOptions,
+      retryBudget,
+      hedging,
+      circuitBreaker,
+      hooks,
+      signal,
+      requestId,
+      rateLimiter,
+      concurrencyLimiter,
+      interceptors,
+      tracer,
+      metrics,
+      redactor,
     });
   }
 }
@@ -468,6 +842,8 @@ export function createRetryOptions(
  * @param {number} totalTimeoutMillis - the total time, in milliseconds,
  *   starting from when the initial request is sent, after which an error will
  *   be returned, regardless of the retrying attempts made meanwhile.
+ * @param {Jitter=} jitter - the randomization applied to the delay time
+ *   between requests.
  * @return {BackoffSettings} a new settings.
  *
  */
@@ -479,8 +855,9 @@ export function createBackoffSettings(
   rpcTimeoutMultiplier: number | null,
   maxRpcTimeoutMillis: number | null,
   totalTimeoutMillis: number | null,
+  jitter?: Jitter,
 ): BackoffSettings {
-  return {
+  const backoffSettings: BackoffSettings = {
     initialRetryDelayMillis,
     retryDelayMultiplier,
     maxRetryDelayMillis,
@@ -489,6 +866,11 @@ export function createBackoffSettings(
     maxRpcTimeoutMillis,
     totalTimeoutMillis,
   };
+  if (jitter !== undefined) {
+    validateJitter(jitter);
+    backoffSettings.jitter = jitter;
+  }
+  return backoffSettings;
 }
 
 export function createDefaultBackoffSettings() {
@@ -517,6 +899,8 @@ export function createDefaultBackoffSettings() {
  *   ``rpcTimeoutMultiplier`` will no longer be used to increase the timeout.
  * @param {number} maxRetries - the maximum number of retrying attempts that
  *   will be made. If reached, an error will be returned.
+ * @param {Jitter=} jitter - the randomization applied to the delay time
+ *   between requests.
  * @return {BackoffSettings} a new settings.
  *
  */
@@ -528,8 +912,9 @@ export function createMaxRetriesBackoffSettings(
   rpcTimeoutMultiplier: number,
   maxRpcTimeoutMillis: number,
   maxRetries: number,
+  jitter?: Jitter,
 ): BackoffSettings {
-  return {
+  const backoffSettings: BackoffSettings = {
     initialRetryDelayMillis,
     retryDelayMultiplier,
     maxRetryDelayMillis,
@@ -538,6 +923,11 @@ export function createMaxRetriesBackoffSettings(
     maxRpcTimeoutMillis,
     maxRetries,
   };
+  if (jitter !== undefined) {
+    validateJitter(jitter);
+    backoffSettings.jitter = jitter;
+  }
+  return backoffSettings;
 }
 
 /**
@@ -776,21 +1166,28 @@ export interface ClientConfig {
  * @param {Object} clientConfig - A dictionary parsed from the
  *   standard API client config file.
  * @param {Object} configOverrides - A dictionary in the same structure of
- *   client_config to override the settings.
+ *   client_config to override the settings, or a standard gRPC service config
+ *   (see {@link GrpcServiceConfig}) whose `timeout`, `retryPolicy` and
+ *   `hedgingPolicy` override those of the methods it names.
  * @param {Object.<string, string[]>} retryNames - A dictionary mapping the strings
  *   referring to response status codes to objects representing
  *   those codes.
  * @param {Object} otherArgs - the non-request arguments to be passed to the API
  *   calls.
+ * @param {CallOptions=} clientOptions - the call options shared by all the
+ *   methods of the service, such as a {@link RetryBudget}. The values from the
+ *   client config take precedence.
  * @return {Object} A mapping from method name to CallSettings, or null if the
  *   service is not found in the config.
+ * @throws {Error} if configOverrides is an invalid gRPC service config.
  */
 export function constructSettings(
   serviceName: string,
   clientConfig: ClientConfig,
-  configOverrides: ClientConfig,
+  configOverrides: ClientConfig | GrpcServiceConfig,
   retryNames: {},
   otherArgs?: {},
+  clientOptions?: CallOptions,
 ) {
   otherArgs = otherArgs || {};
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -800,6 +1197,16 @@ export function constructSettings(
   if (!serviceConfig) {
     return null;
   }
+  let grpcServiceConfig: GrpcServiceConfig | undefined;
+  let clientConfigOverrides = configOverrides as ClientConfig;
+  if (isGrpcServiceConfig(configOverrides)) {
+    const errors = validateServiceConfig(configOverrides);
+    if (errors.length > 0) {
+      throw new Error(`Invalid gRPC service config: ${errors.join('; ')}`);
+    }
+    grpcServiceConfig = configOverrides;
+    clientConfigOverrides = {};
+  }
   // users can override the config from client side, like bundling options.
   // The detailed structure of the clientConfig can be found here: https://github.com/googleapis/gax-nodejs/blob/main/src/gax.ts#L546
   // The way to override bundling options:
@@ -807,7 +1214,7 @@ export function constructSettings(
   // const customConfig = {"interfaces": {"service": {"methods": {"methodName": {"bundling": {..}}}}}}
   // const client = new Client({ projectId, customConfig });
 
-  const overrides = (configOverrides.interfaces || {})[serviceName] || {};
+  const overrides = (clientConfigOverrides.interfaces || {})[serviceName] || {};
   const methods = serviceConfig.methods;
   const overridingMethods = overrides.methods || {};
   for (const methodName in methods) {
@@ -844,6 +1251,7 @@ export function constructSettings(
     }
     const apiName = serviceName;
     defaults[jsName] = new CallSettings({
+      ...clientOptions,
       timeout,
       retry,
       bundleOptions: bundlingConfig
@@ -851,7 +1259,19 @@ export function constructSettings(
         : null,
       otherArgs,
       apiName,
+      methodName,
     });
+    if (grpcServiceConfig) {
+      defaults[jsName] = new CallSettings({
+        ...defaults[jsName],
+        ...methodOptionsFromServiceConfig(
+          grpcServiceConfig,
+          serviceName,
+          methodName,
+          defaults[jsName].timeout,
+        ),
+      });
+    }
   }
 
   return defaults;
@@ -23,6 +23,8 @@ import {JSONValue} from 'proto3-json-serializer';
 
 const PROTO_TYPE_PREFIX = 'type.googleapis.com/';
 const RESOURCE_INFO_TYPE = 'type.googleapis.com/google.rpc.ResourceInfo';
+const RETRY_INFO_TYPE = 'type.googleapis.com/google.rpc.RetryInfo';
+const QUOTA_FAILURE_TYPE = 'type.googleapis.com/google.rpc.QuotaFailure';
 const DEFAULT_RESOURCE_TYPE_NAME_FOR_UNKNOWN_TYPES = 'Unknown type';
 const ANY_PROTO_TYPE_NAME = 'google.protobuf.Any';
 const UNKNOWN_TYPE_ENCONDED_ERROR_PREFIX = 'Unknown type encoded in';
@@ -38,9 +40,14 @@ export class GoogleError extends Error {
   reason?: string;
   domain?: string;
   errorInfoMetadata?: {[propName: string]: string};
+  retryDelayMillis?: number;
+  quotaViolations?: QuotaViolation[];
+  requestId?: string;
+  attempts?: AttemptRecord[];
 
   // Parse details field in google.rpc.status wire over gRPC medatadata.
-  // Promote google.rpc.ErrorInfo if exist.
+  // Promote google.rpc.ErrorInfo, google.rpc.RetryInfo and
+  // google.rpc.QuotaFailure if exist.
   static parseGRPCStatusDetails(err: GoogleError): GoogleError {
     const decoder = new GoogleErrorDecoder();
     try {
@@ -61,6 +68,14 @@ export class GoogleError extends Error {
           err.domain = statusDetailsObj.errorInfo.domain;
           err.errorInfoMetadata = statusDetailsObj.errorInfo.metadata;
         }
+        if (statusDetailsObj && statusDetailsObj.retryInfo) {
+          err.retryDelayMillis = durationToMillis(
+            statusDetailsObj.retryInfo.retryDelay,
+          );
+        }
+        if (statusDetailsObj && statusDetailsObj.quotaFailure) {
+          err.quotaViolations = statusDetailsObj.quotaFailure.violations;
+        }
       }
     } catch (decodeErr) {
       // ignoring the error
@@ -68,7 +83,25 @@ export class GoogleError extends Error {
     return err;
   }
 
-  // Parse http JSON error and promote google.rpc.ErrorInfo if exist.
+  // Attach the failed attempts of a retried call to the error it ends with.
+  // They are also set as a standard AggregateError cause, so that error
+  // reporters can show the whole chain.
+  static withAttempts(
+    err: GoogleError,
+    attempts: AttemptRecord[],
+  ): GoogleError {
+    err.attempts = attempts;
+    if (attempts.length > 0) {
+      err.cause = new AggregateError(
+        attempts.map(attempt => attempt.error),
+        `${attempts.length} failed attempt${attempts.length > 1 ? 's' : ''}`,
+      );
+    }
+    return err;
+  }
+
+  // Parse http JSON error and promote google.rpc.ErrorInfo,
+  // google.rpc.RetryInfo and google.rpc.QuotaFailure if exist.
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   static parseHttpError(json: any): GoogleError {
     if (Array.isArray(json)) {
@@ -134,6 +167,14 @@ export class GoogleError extends Error {
           // consistency with gRPC ErrorInfo metadata field name.
           error.errorInfoMetadata = statusDetailsObj.errorInfo.metadata;
         }
+        if (statusDetailsObj && statusDetailsObj.retryInfo) {
+          error.retryDelayMillis = durationToMillis(
+            statusDetailsObj.retryInfo.retryDelay,
+          );
+        }
+        if (statusDetailsObj && statusDetailsObj.quotaFailure) {
+          error.quotaViolations = statusDetailsObj.quotaFailure.violations;
+        }
       } catch (decodeErr) {
         // ignoring the error
       }
@@ -150,6 +191,8 @@ interface FallbackStatusObject {
   reason?: string;
   domain?: string;
   errorInfoMetadata?: {string: string};
+  retryDelayMillis?: number;
+  quotaViolations?: QuotaViolation[];
 }
 
 interface ProtobufAny {
@@ -166,6 +209,8 @@ interface RpcStatus {
 interface GRPCStatusDetailsObject {
   details: protobuf.Message<{}>[];
   errorInfo?: ErrorInfo;
+  retryInfo?: RetryInfo;
+  quotaFailure?: QuotaFailure;
 }
 
 interface ErrorInfo {
@@ -174,6 +219,51 @@ interface ErrorInfo {
   metadata: {string: string};
 }
 
+interface Duration {
+  seconds?: number | string | {toString(): string} | null;
+  nanos?: number | null;
+}
+
+interface RetryInfo {
+  retryDelay?: Duration | null;
+}
+
+// A quota check that failed, from google.rpc.QuotaFailure.
+export interface QuotaViolation {
+  subject?: string;
+  description?: string;
+}
+
+// An attempt of a retried call that failed, with the error it failed with.
+export interface AttemptRecord {
+  attempt: number;
+  startTime: Date;
+  durationMillis: number;
+  code?: Status;
+  error: GoogleError;
+}
+
+interface QuotaFailure {
+  violations: QuotaViolation[];
+}
+
+// Convert google.protobuf.Duration to milliseconds. Seconds can be decoded
+// as a number, a string or a Long, depending on the decoder.
+const durationToMillis = (
+  duration: Duration | null | undefined,
+): number | undefined => {
+  if (!duration) {
+    return undefined;
+  }
+  const seconds = Number(duration.seconds?.toString() ?? 0);
+  const nanos = Number(duration.nanos ?? 0);
+  const millis = seconds * 1000 + nanos / 1e6;
+  if (!Number.isFinite(millis) || millis < 0) {
+    return undefined;
+  }
+  return millis;
+};
+
 // Interface to capture the details provided in RPC status.
 interface ErrorDetails {
   // Details that most likely are in RPC status.
@@ -326,6 +416,8 @@ export class GoogleErrorDecoder {
     // which need a special treatment
     const details: Array<protobuf.Message> = [];
     let errorInfo;
+    let retryInfo;
+    let quotaFailure;
     for (const detail of status.details) {
       try {
         const decodedDetail = this.decodeProtobufAny(detail);
@@ -333,6 +425,12 @@ export class GoogleErrorDecoder {
         if (detail.type_url === 'type.googleapis.com/google.rpc.ErrorInfo') {
           errorInfo = decodedDetail as unknown as ErrorInfo;
         }
+        if (detail.type_url === RETRY_INFO_TYPE) {
+          retryInfo = decodedDetail as unknown as RetryInfo;
+        }
+        if (detail.type_url === QUOTA_FAILURE_TYPE) {
+          quotaFailure = decodedDetail as unknown as QuotaFailure;
+        }
       } catch (err) {
         // cannot decode detail, likely because of the unknown type - just skip it
       }
@@ -344,6 +442,8 @@ export class GoogleErrorDecoder {
       reason: errorInfo?.reason,
       domain: errorInfo?.domain,
       errorInfoMetadata: errorInfo?.metadata,
+      retryDelayMillis: durationToMillis(retryInfo?.retryDelay),
+      quotaViolations: quotaFailure?.violations,
     };
     return result;
   }
@@ -367,6 +467,8 @@ export class GoogleErrorDecoder {
   ): GRPCStatusDetailsObject {
     const details: protobuf.Message<{}>[] = [];
     let errorInfo;
+    let retryInfo;
+    let quotaFailure;
     bufferArr.forEach(buffer => {
       const uint8array = new Uint8Array(buffer);
       const rpcStatus = this.statusType.decode(
@@ -379,6 +481,12 @@ export class GoogleErrorDecoder {
           if (detail.type_url === 'type.googleapis.com/google.rpc.ErrorInfo') {
             errorInfo = decodedDetail as unknown as ErrorInfo;
           }
+          if (detail.type_url === RETRY_INFO_TYPE) {
+            retryInfo = decodedDetail as unknown as RetryInfo;
+          }
+          if (detail.type_url === QUOTA_FAILURE_TYPE) {
+            quotaFailure = decodedDetail as unknown as QuotaFailure;
+          }
         } catch (error: any) {
           if (isUnknownTypeEncodedError(error)) {
             const customErrorAsAny = buildUnknownProtoAsAny(
@@ -394,6 +502,8 @@ export class GoogleErrorDecoder {
     const result = {
       details,
       errorInfo,
+      retryInfo,
+      quotaFailure,
     };
     return result;
   }
@@ -431,6 +541,8 @@ export class GoogleErrorDecoder {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const details: protobuf.Message<{}>[] = [];
     let errorInfo;
+    let retryInfo;
+    let quotaFailure;
     for (const detail of rawDetails) {
       try {
         const decodedDetail = this.decodeProtobufAny(detail);
@@ -438,10 +550,16 @@ export class GoogleErrorDecoder {
         if (detail.type_url === 'type.googleapis.com/google.rpc.ErrorInfo') {
           errorInfo = decodedDetail as unknown as ErrorInfo;
         }
+        if (detail.type_url === RETRY_INFO_TYPE) {
+          retryInfo = decodedDetail as unknown as RetryInfo;
+        }
+        if (detail.type_url === QUOTA_FAILURE_TYPE) {
+          quotaFailure = decodedDetail as unknown as QuotaFailure;
+        }
       } catch (err) {
         // cannot decode detail, likely because of the unknown type - just skip it
       }
     }
-    return {details, errorInfo};
+    return {details, errorInfo, retryInfo, quotaFailure};
   }
 }
@@ -27,6 +27,18 @@ import * as protobuf from 'protobufjs';
 import objectHash from 'object-hash';
 
 import * as gax from './gax';
+import {RateLimiter} from './rateLimiter';
+import {RetryBudget} from './retryBudget';
+import {CircuitBreakerOptions, CircuitBreakerRegistry} from './circuitBreaker';
+import {
+  ConcurrencyLimitOptions,
+  ConcurrencyLimiterRegistry,
+} from './concurrencyLimiter';
+import {Interceptor} from './interceptors';
+import {GrpcServiceConfig} from './serviceConfig';
+import {MetricsRecorder} from './metrics';
+import {RedactionOptions, Redactor} from './redaction';
+import {CallTracer, TracingOptions} from './tracing';
 import {ClientOptions} from '@grpc/grpc-js/build/src/client';
 
 const googleProtoFilesDir = path.join(__dirname, '..', '..', 'build', 'protos');
@@ -52,6 +64,19 @@ export interface GrpcClientOptions extends GoogleAuthOptions {
   httpRules?: Array<google.api.IHttpRule>;
   numericEnums?: boolean;
   universeDomain?: string;
+  retryBudget?: RetryBudget;
+  circuitBreaker?: CircuitBreakerOptions;
+  rateLimiter?: RateLimiter;
+  concurrencyLimit?: ConcurrencyLimitOptions;
+  interceptors?: Interceptor[];
+  fetchImplementation?: typeof fetch;
+  tracing?: TracingOptions | boolean;
+  metrics?: MetricsRecorder;
+  logRedaction?: RedactionOptions;
+}
+
+export interface ConstructSettingsOptions {
+  requestId?: gax.RequestIdOptions | boolean;
 }
 
 export interface MetadataValue {
@@ -120,6 +145,14 @@ export class GrpcClient {
   fallback: boolean | 'rest' | 'proto';
   private static protoCache = new Map<string, grpc.GrpcObject>();
   httpRules?: Array<google.api.IHttpRule>;
+  retryBudget?: RetryBudget;
+  circuitBreakers?: CircuitBreakerRegistry;
+  rateLimiter?: RateLimiter;
+  concurrencyLimiters?: ConcurrencyLimiterRegistry;
+  interceptors?: Interceptor[];
+  tracer?: CallTracer;
+  metrics?: MetricsRecorder;
+  redactor?: Redactor;
   /**
    * Base directory for resolving client certificates.
    *
@@ -168,11 +201,55 @@ export class GrpcClient {
    * @param {Object=} options.grpc - When specified, this will be used
    *   for the 'grpc' module in this context. By default, it will load the grpc
    *   module in the standard way.
+   * @param {RetryBudget=} options.retryBudget - When specified, the retries
+   *   of all the methods of the client are limited by this budget.
+   * @param {CircuitBreakerOptions=} options.circuitBreaker - When specified,
+   *   each method of the client is guarded by a circuit breaker. Their state
+   *   changes are emitted by {@link GrpcClient#circuitBreakers}.
+   * @param {RateLimiter=} options.rateLimiter - When specified, the calls of
+   *   all the methods of the client are limited by this rate limiter.
+   * @param {ConcurrencyLimitOptions=} options.concurrencyLimit - When
+   *   specified, bounds the number of calls in flight, for the whole client
+   *   and for some of its methods. The calls over the limits wait for their
+   *   turn, see {@link GrpcClient#concurrencyLimiters}.
+   * @param {Interceptor[]=} options.interceptors - When specified, these
+   *   functions run around each attempt of the unary calls of all the
+   *   methods of the client.
+   * @param {TracingOptions|boolean=} options.tracing - When specified, the
+   *   calls of the client are traced with OpenTelemetry, if
+   *   `@opentelemetry/api` is installed. Set it to true to use the default
+   *   options.
+   * @param {MetricsRecorder=} options.metrics - When specified, the metrics
+   *   of the calls of all the methods of the client are recorded by it.
+   * @param {RedactionOptions=} options.logRedaction - When specified, the
+   *   fields of the payloads redacted in the logs of the calls of the
+   *   client, on top of the built-in rules.
    * @constructor
    */
   constructor(options: GrpcClientOptions = {}) {
     this.auth = options.auth || new GoogleAuth(options);
     this.fallback = false;
+    this.retryBudget = options.retryBudget;
+    this.rateLimiter = options.rateLimiter;
+    this.interceptors = options.interceptors;
+    this.metrics = options.metrics;
+    if (options.logRedaction) {
+      this.redactor = new Redactor(options.logRedaction);
+    }
+    if (options.tracing) {
+      this.tracer = new CallTracer(
+        options.tracing === true ? {} : options.tracing,
+        'grpc',
+      );
+    }
+    if (options.circuitBreaker) {
+      this.circuitBreakers = new CircuitBreakerRegistry(options.circuitBreaker);
+    }
+    if (options.concurrencyLimit) {
+      this.concurrencyLimiters = new ConcurrencyLimiterRegistry(
+        options.concurrencyLimit,
+      );
+    }
 
     const minimumVersion = 10;
     const major = Number(process.version.match(/^v(\d+)/)?.[1]);
@@ -372,24 +449,43 @@ export class GrpcClient {
    * Most of parameters are common among constructSettings, please take a look.
    * @param {string} serviceName - The fullly-qualified name of the service.
    * @param {Object} clientConfig - A dictionary of the client config.
-   * @param {Object} configOverrides - A dictionary of overriding configs.
+   * @param {Object} configOverrides - A dictionary of overriding configs, or
+   *   a gRPC service config.
    * @param {Object} headers - A dictionary of additional HTTP header name to
    *   its value.
+   * @param {Object=} options - Additional settings of the methods.
+   * @param {RequestIdOptions|boolean=} options.requestId - When specified,
+   *   each call sends a request ID and the number of its attempt in its
+   *   headers. Set it to true to use the default header names.
    * @return {Object} A mapping of method names to CallSettings.
    */
   constructSettings(
     serviceName: string,
     clientConfig: gax.ClientConfig,
-    configOverrides: gax.ClientConfig,
+    configOverrides: gax.ClientConfig | GrpcServiceConfig,
     headers: OutgoingHttpHeaders,
+    options: ConstructSettingsOptions = {},
   ) {
-    return gax.constructSettings(
+    const settings = gax.constructSettings(
       serviceName,
       clientConfig,
       configOverrides,
       this.grpc.status,
       {metadataBuilder: this.metadataBuilder(headers)},
+      {
+        retryBudget: this.retryBudget,
+        rateLimiter: this.rateLimiter,
+        interceptors: this.interceptors,
+        tracer: this.tracer,
+        metrics: this.metrics,
+        redactor: this.redactor,
+        requestId:
+          options.requestId === true ? {} : options.requestId || undefined,
+      },
     );
+    this.circuitBreakers?.attach(serviceName, settings);
+    this.concurrencyLimiters?.attach(serviceName, settings);
+    return settings;
   }
 
   /**
@@ -48,11 +48,77 @@ export {
   createBackoffSettings,
   createDefaultBackoffSettings,
   createMaxRetriesBackoffSettings,
+  Jitter,
+  JitterFunction,
+  HedgingOptions,
+  CallHooks,
+  AttemptStartEvent,
+  AttemptFailureEvent,
+  CallFinishEvent,
+  RequestIdOptions,
 } from './gax';
-export {GoogleError} from './googleError';
+export {AttemptRecord, GoogleError, QuotaViolation} from './googleError';
+export {withDeadline, getRemainingDeadlineMillis} from './deadline';
+export {RetryBudget, RetryBudgetOptions} from './retryBudget';
+export {
+  AdaptiveRateLimiter,
+  AdaptiveRateLimiterOptions,
+  RateLimiter,
+  RateLimiterOptions,
+} from './rateLimiter';
+export {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  CircuitBreakerRegistry,
+  CircuitAdmission,
+  CircuitState,
+  CircuitStateChange,
+} from './circuitBreaker';
+export {
+  ConcurrencyLimiter,
+  ConcurrencyLimiterOptions,
+  ConcurrencyLimiterRegistry,
+  ConcurrencyLimitOptions,
+  ConcurrencyStats,
+} from './concurrencyLimiter';
+export {
+  InterceptedMethod,
+  Interceptor,
+  InterceptorContext,
+  InterceptorNext,
+  InterceptorResult,
+} from './interceptors';
+export {
+  CallTracer,
+  OpenTelemetryApi,
+  Span,
+  SpanAttributeValue,
+  Tracer,
+  TracingOptions,
+} from './tracing';
+export {
+  Counter,
+  Histogram,
+  Meter,
+  MetricAttributes,
+  MetricsRecorder,
+  OpenTelemetryMetricsApi,
+  OpenTelemetryMetricsOptions,
+  OpenTelemetryMetricsRecorder,
+} from './metrics';
+export {RedactionMode, RedactionOptions, Redactor} from './redaction';
+export {
+  GrpcHedgingPolicy,
+  GrpcMethodConfig,
+  GrpcMethodName,
+  GrpcRetryPolicy,
+  GrpcServiceConfig,
+  validateServiceConfig,
+} from './serviceConfig';
 export {
   ClientStub,
   ClientStubOptions,
+  ConstructSettingsOptions,
   GoogleProtoFilesRoot,
   GrpcClient,
   GrpcClientOptions,
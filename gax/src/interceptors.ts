@@ -0,0 +1,178 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {OutgoingHttpHeaders} from 'http';
+
+import {
+  GRPCCall,
+  GRPCCallResult,
+  NextPageRequestType,
+  RawResponseType,
+  RequestType,
+  ResponseType,
+  UnaryCall,
+} from './apitypes';
+import {Descriptor} from './descriptor';
+import {GoogleError} from './googleError';
+import {Metadata} from './grpc';
+import {Status} from './status';
+
+/**
+ * The method called by an {@link Interceptor}.
+ * @typedef {Object} InterceptedMethod
+ * @property {string=} apiName - the name of the service, e.g.
+ *   `google.example.v1.Library`.
+ * @property {string=} methodName - the name of the method, e.g. `GetBook`.
+ * @property {Descriptor=} descriptor - the descriptor of the method, if it is
+ *   paged, long-running or bundled.
+ */
+export interface InterceptedMethod {
+  apiName?: string;
+  methodName?: string;
+  descriptor?: Descriptor;
+}
+
+/**
+ * An attempt of a call, passed to an {@link Interceptor}.
+ * @typedef {Object} InterceptorContext
+ * @extends InterceptedMethod
+ * @property {Object} request - the request sent by the attempt.
+ * @property {Object} metadata - the metadata sent by the attempt: a gRPC
+ *   `Metadata` with gRPC, the HTTP headers with the fallback.
+ * @property {Object} options - the options of the attempt, e.g. its
+ *   `deadline`.
+ */
+export interface InterceptorContext extends InterceptedMethod {
+  request: RequestType;
+  metadata: Metadata | OutgoingHttpHeaders;
+  options: {deadline?: Date};
+}
+
+/**
+ * The result of a successful attempt, returned to an {@link Interceptor}.
+ * @typedef {Object} InterceptorResult
+ * @property {Object} response - the response of the attempt.
+ * @property {Object=} next - the request of the next page, for paged calls.
+ * @property {Object=} rawResponse - the raw response of the attempt.
+ */
+export interface InterceptorResult {
+  response: ResponseType;
+  next?: NextPageRequestType;
+  rawResponse?: RawResponseType;
+}
+
+export type InterceptorNext = (
+  context: InterceptorContext,
+) => Promise<InterceptorResult>;
+
+/**
+ * Runs around each attempt of the unary calls, including the pages of paged
+ * calls and the calls starting long-running operations. An interceptor may
+ * change the context before passing it to `next`, which runs the following
+ * interceptors and then sends the attempt, and may change the result or the
+ * error of `next`. Interceptors run in the order they are registered.
+ * @callback Interceptor
+ * @param {InterceptorContext} context - the attempt.
+ * @param {function(InterceptorContext): Promise<InterceptorResult>} next -
+ *   sends the attempt.
+ * @return {Promise<InterceptorResult>} the result of the attempt.
+ */
+export type Interceptor = (
+  context: InterceptorContext,
+  next: InterceptorNext,
+) => Promise<InterceptorResult>;
+
+/**
+ * Creates a function equivalent to func, but running the interceptors around
+ * each of its calls.
+ *
+ * @private
+ *
+ * @param {GRPCCall} func - A function.
+ * @param {Interceptor[]} interceptors - the interceptors, outermost first.
+ * @param {InterceptedMethod} method - the method called by func.
+ * @return {GRPCCall} the intercepted function.
+ */
+export function withInterceptors(
+  func: GRPCCall,
+  interceptors: Interceptor[],
+  method: InterceptedMethod,
+): GRPCCall {
+  return ((
+    argument: RequestType,
+    metadata: Metadata | OutgoingHttpHeaders,
+    options: {deadline?: Date},
+    callback: (
+      err: GoogleError | null,
+      response?: ResponseType,
+      next?: NextPageRequestType,
+      rawResponse?: RawResponseType,
+    ) => void,
+  ) => {
+    let canceller: GRPCCallResult | undefined;
+    let finished = false;
+    const finish: typeof callback = (err, response, next, rawResponse) => {
+      if (!finished) {
+        finished = true;
+        callback(err, response, next, rawResponse);
+      }
+    };
+    const send: InterceptorNext = context =>
+      new Promise((resolve, reject) => {
+        if (finished) {
+          const error = new GoogleError('cancelled');
+          error.code = Status.CANCELLED;
+          reject(error);
+          return;
+        }
+        canceller = (func as UnaryCall)(
+          context.request,
+          context.metadata,
+          context.options,
+          (err, response, next, rawResponse) => {
+            if (err) {
+              reject(err);
+            } else {
+              resolve({response: response!, next, rawResponse});
+            }
+          },
+        );
+        if (canceller instanceof Promise) {
+          canceller.catch(err => reject(new GoogleError(err)));
+        }
+      });
+    const intercepted = interceptors.reduceRight<InterceptorNext>(
+      (next, interceptor) => context => interceptor(context, next),
+      send,
+    );
+    intercepted({...method, request: argument, metadata, options}).then(
+      result => finish(null, result.response, result.next, result.rawResponse),
+      err => finish(err),
+    );
+    return {
+      cancel() {
+        if (canceller) {
+          canceller.cancel();
+        } else {
+          // Still in the interceptors: the attempt is not sent.
+          const error = new GoogleError('cancelled');
+          error.code = Status.CANCELLED;
+          finish(error);
+        }
+      },
+    };
+  }) as GRPCCall;
+}
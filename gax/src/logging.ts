@@ -0,0 +1,246 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  AdhocDebugLogFunction,
+  log,
+  LogSeverity,
+  placeholder,
+} from 'google-logging-utils';
+
+import {CancellableStream, RequestType, ResponseType} from './apitypes';
+import {OngoingCall, watchCallOutcome} from './call';
+import {CallSettings} from './gax';
+import {GoogleError} from './googleError';
+import {DEFAULT_REDACTOR, Redactor} from './redaction';
+import {Status} from './status';
+
+/**
+ * The namespace of the logs of gax, e.g. enabled with
+ * `GOOGLE_SDK_NODE_LOGGING=gax`.
+ */
+export const LOG_NAMESPACE = 'gax';
+
+// The longest payload summary logged, in characters.
+const MAX_SUMMARY_LENGTH = 1000;
+
+/**
+ * The structured fields of the logs of gax, passed in the `other` field of
+ * their `LogFields`.
+ * @typedef {Object} CallLogFields
+ * @property {string} method - the method called, e.g.
+ *   `google.example.v1.Library/GetBook`.
+ * @property {string=} request - the request, redacted and as JSON
+ *   truncated to 1000 characters.
+ * @property {string=} response - the response of a unary call, redacted and
+ *   as JSON truncated to 1000 characters.
+ * @property {number=} attempt - the number of the attempt or of the poll,
+ *   starting at 1.
+ * @property {number=} delayMillis - the delay before the next attempt or
+ *   poll.
+ * @property {string=} status - the status code of the call or of the
+ *   attempt, e.g. `UNAVAILABLE`.
+ * @property {number=} durationMillis - the duration of the call.
+ * @property {number=} responseSize - the length of the response of a unary
+ *   call as JSON.
+ * @property {string=} operation - the name of the long-running operation.
+ */
+export interface CallLogFields {
+  method: string;
+  request?: string;
+  response?: string;
+  attempt?: number;
+  delayMillis?: number;
+  status?: string;
+  durationMillis?: number;
+  responseSize?: number;
+  operation?: string;
+}
+
+/**
+ * Returns the logger of gax, or undefined when logging is disabled. It is
+ * looked up on each call, since logging can be enabled after gax is loaded.
+ *
+ * @private
+ */
+export function gaxLogger(): AdhocDebugLogFunction | undefined {
+  const logger = log(LOG_NAMESPACE);
+  return logger === placeholder ? undefined : logger;
+}
+
+/**
+ * The severities of the logs of gax. Some versions of google-logging-utils
+ * only export `LogSeverity` as a type, so its values are spelled out.
+ */
+export type CallLogSeverity = 'DEBUG' | 'INFO' | 'WARNING';
+
+/**
+ * Logs an event of a call, if logging is enabled.
+ *
+ * @private
+ *
+ * @param {string} severity - the severity of the entry.
+ * @param {CallLogFields} fields - the structured fields of the entry.
+ * @param {string} message - the message, formatted with the args.
+ * @param {...*} args - the arguments of the message.
+ */
+export function logCallEvent(
+  severity: CallLogSeverity,
+  fields: CallLogFields,
+  message: string,
+  ...args: unknown[]
+) {
+  gaxLogger()?.(
+    {severity: severity as LogSeverity, other: fields},
+    message,
+    ...args,
+  );
+}
+
+/**
+ * Returns the name of a method in the logs, e.g.
+ * `google.example.v1.Library/GetBook`.
+ *
+ * @private
+ */
+export function methodLabel(apiName?: string, methodName?: string): string {
+  return `${apiName ?? 'unknown'}/${methodName ?? 'unknown'}`;
+}
+
+/**
+ * Returns the name of a status code in the logs, e.g. `UNAVAILABLE`.
+ *
+ * @private
+ */
+export function statusName(code?: Status | null): string {
+  if (code === undefined || code === null) {
+    return Status[Status.UNKNOWN];
+  }
+  return Status[code] ?? String(code);
+}
+
+function toJson(value: unknown): string | undefined {
+  try {
+    return JSON.stringify(value);
+  } catch (err) {
+    // e.g. circular structures
+    return undefined;
+  }
+}
+
+/**
+ * Returns the request or the response of a call as JSON, with its sensitive
+ * fields redacted, truncated.
+ *
+ * @private
+ */
+export function summarizePayload(
+  payload: RequestType | ResponseType,
+  redactor: Redactor = DEFAULT_REDACTOR,
+): string | undefined {
+  const json = toJson(redactor.redact(payload));
+  if (json === undefined || json.length <= MAX_SUMMARY_LENGTH) {
+    return json;
+  }
+  return `${json.slice(0, MAX_SUMMARY_LENGTH)}...`;
+}
+
+/**
+ * A call being logged, see {@link startCallLog}.
+ * @private
+ */
+export interface LoggedCall {
+  // logs the outcome of the call when the ongoing call finishes
+  watch(call: OngoingCall | CancellableStream): void;
+}
+
+/**
+ * Logs the start of a call, if logging is enabled.
+ *
+ * @private
+ *
+ * @param {CallSettings} settings - the settings of the call.
+ * @param {RequestType} request - the request of the call.
+ * @return {LoggedCall|undefined} the logged call, or undefined if logging
+ *   is disabled.
+ */
+export function startCallLog(
+  settings: CallSettings,
+  request: RequestType,
+): LoggedCall | undefined {
+  if (!gaxLogger()) {
+    return undefined;
+  }
+  const method = methodLabel(settings.apiName, settings.methodName);
+  const redactor = settings.redactor ?? DEFAULT_REDACTOR;
+  const start = Date.now();
+  logCallEvent(
+    'DEBUG',
+    {method, request: summarizePayload(request, redactor)},
+    'calling %s',
+    method,
+  );
+
+  let callEnded = false;
+  const endCall = (error: GoogleError | null, response?: ResponseType) => {
+    if (callEnded) {
+      return;
+    }
+    callEnded = true;
+    const durationMillis = Date.now() - start;
+    if (error) {
+      const status = statusName(error.code);
+      logCallEvent(
+        'WARNING',
+        {method, status, durationMillis},
+        '%s failed with %s in %dms: %s',
+        method,
+        status,
+        durationMillis,
+        error.message,
+      );
+    } else {
+      logCallEvent(
+        'DEBUG',
+        {
+          method,
+          status: statusName(Status.OK),
+          durationMillis,
+          response:
+            response === undefined
+              ? undefined
+              : summarizePayload(response, redactor),
+          responseSize: responseSize(response),
+        },
+        '%s succeeded in %dms',
+        method,
+        durationMillis,
+      );
+    }
+  };
+
+  return {
+    watch(call: OngoingCall | CancellableStream) {
+      watchCallOutcome(call, (err, response) =>
+        endCall(err, err ? undefined : response),
+      );
+    },
+  };
+}
+
+function responseSize(response?: ResponseType): number | undefined {
+  return response === undefined ? undefined : toJson(response)?.length;
+}
@@ -17,11 +17,13 @@
 import {EventEmitter} from 'events';
 import {Status} from '../status';
 
+import {createAbortError} from '../abortSignal';
 import {ResultTuple} from '../apitypes';
 import {CancellablePromise} from '../call';
-import {BackoffSettings, CallOptions} from '../gax';
+import {BackoffSettings, CallOptions, computeRetryDelay} from '../gax';
 import {GoogleError} from '../googleError';
 import {Metadata} from '../grpc';
+import {logCallEvent, methodLabel, statusName} from '../logging';
 import {LongRunningDescriptor} from './longRunningDescriptor';
 import * as operationProtos from '../../protos/operations';
 
@@ -184,9 +186,22 @@ export class Operation extends EventEmitter {
     const request =
       new operationProtos.google.longrunning.GetOperationRequest();
     request.name = this.latestResponse.name;
+    // The hooks, the signal, the tracer and the metrics of the call are
+    // handled by the polling loop, not by each poll.
     this.currentCallPromise_ = operationsClient.getOperationInternal(
       request,
-      this._callOptions!,
+      this._callOptions?.hooks ||
+        this._callOptions?.signal ||
+        this._callOptions?.tracer ||
+        this._callOptions?.metrics
+        ? {
+            ...this._callOptions,
+            hooks: undefined,
+            signal: undefined,
+            tracer: undefined,
+            metrics: undefined,
+          }
+        : this._callOptions!,
     );
 
     const noCallbackPromise = this.currentCallPromise_.then(
@@ -260,6 +275,7 @@ export class Operation extends EventEmitter {
     const delayMult = this.backoffSettings.retryDelayMultiplier;
     const maxDelay = this.backoffSettings.maxRetryDelayMillis;
     let delay = this.backoffSettings.initialRetryDelayMillis;
+    let previousSleep = delay;
     let deadline = Infinity;
     if (this.backoffSettings.totalTimeoutMillis) {
       deadline = now.getTime() + this.backoffSettings.totalTimeoutMillis;
@@ -268,12 +284,60 @@ export class Operation extends EventEmitter {
     if (this.latestResponse.metadata) {
       previousMetadataBytes = this.latestResponse.metadata.value!;
     }
+    const hooks = this._callOptions?.hooks;
+    const signal = this._callOptions?.signal;
+    const method = methodLabel(
+      this._callOptions?.apiName,
+      this._callOptions?.methodName,
+    );
+    let polls = 0;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let finished = false;
+    let aborted = false;
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     function emit(event: string | symbol, ...args: any[]) {
+      if (event === 'complete' || event === 'error') {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        signal?.removeEventListener('abort', onAbort);
+        if (event === 'error') {
+          const status = statusName(args[0]?.code);
+          logCallEvent(
+            'WARNING',
+            {method, operation: self.name, attempt: polls, status},
+            'operation %s failed with %s after %d polls',
+            self.name,
+            status,
+            polls,
+          );
+        } else {
+          logCallEvent(
+            'DEBUG',
+            {method, operation: self.name, attempt: polls, status: 'OK'},
+            'operation %s completed after %d polls',
+            self.name,
+            polls,
+          );
+        }
+        hooks?.onCallFinish?.({
+          attempts: polls,
+          error: event === 'error' ? args[0] : null,
+        });
+      }
       self.emit(event, ...args);
     }
 
+    // Stops polling and fails the operation when the signal is aborted.
+    function onAbort() {
+      aborted = true;
+      clearTimeout(timeoutId);
+      self.currentCallPromise_?.cancel();
+      setImmediate(emit, 'error', createAbortError(signal!));
+    }
+
     // Helper function to replace nodejs buffer's equals()
     function arrayEquals(a: Uint8Array, b: Uint8Array): boolean {
       if (a.byteLength !== b.byteLength) {
@@ -287,6 +351,7 @@ export class Operation extends EventEmitter {
 
     function retry() {
       if (!self.hasActiveListeners) {
+        signal?.removeEventListener('abort', onAbort);
         return;
       }
 
@@ -299,8 +364,62 @@ export class Operation extends EventEmitter {
         return;
       }
 
+      polls++;
+      logCallEvent(
+        'DEBUG',
+        {method, operation: self.name, attempt: polls},
+        'poll %d of operation %s',
+        polls,
+        self.name,
+      );
+      hooks?.onAttemptStart?.({attempt: polls});
       self.getOperation((err, result, metadata, rawResponse) => {
+        if (aborted) {
+          return;
+        }
         if (err) {
+          // If the server asked to come back later with google.rpc.RetryInfo,
+          // poll again after that delay, capped by the backoff settings.
+          const error = GoogleError.parseGRPCStatusDetails(err);
+          if (
+            error.retryDelayMillis !== undefined &&
+            (error.code === Status.UNAVAILABLE ||
+              error.code === Status.RESOURCE_EXHAUSTED)
+          ) {
+            const remaining = Math.max(deadline - new Date().getTime(), 0);
+            const toSleep = Math.min(
+              error.retryDelayMillis,
+              maxDelay,
+              remaining,
+            );
+            const status = statusName(error.code);
+            logCallEvent(
+              'INFO',
+              {
+                method,
+                operation: self.name,
+                attempt: polls,
+                status,
+                delayMillis: toSleep,
+              },
+              'poll %d of operation %s failed with %s, polling again in %dms',
+              polls,
+              self.name,
+              status,
+              toSleep,
+            );
+            hooks?.onAttemptFailure?.({
+              attempt: polls,
+              error,
+              delayMillis: toSleep,
+            });
+            timeoutId = setTimeout(() => {
+              now = new Date();
+              retry();
+            }, toSleep);
+            return;
+          }
+          hooks?.onAttemptFailure?.({attempt: polls, error});
           setImmediate(emit, 'error', err);
           return;
         }
@@ -327,17 +446,40 @@ export class Operation extends EventEmitter {
             setImmediate(emit, 'complete', {}, metadata, rawResponse);
             return;
           }
-          setTimeout(() => {
+          previousSleep = computeRetryDelay(
+            self.backoffSettings,
+            delay,
+            previousSleep,
+            'none',
+          );
+          logCallEvent(
+            'DEBUG',
+            {
+              method,
+              operation: self.name,
+              attempt: polls,
+              delayMillis: previousSleep,
+            },
+            'operation %s is not done, polling again in %dms',
+            self.name,
+            previousSleep,
+          );
+          timeoutId = setTimeout(() => {
             now = new Date();
             delay = Math.min(delay * delayMult, maxDelay);
             retry();
-          }, delay);
+          }, previousSleep);
           return;
         }
 
         setImmediate(emit, 'complete', result, metadata, rawResponse);
       });
     }
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, {once: true});
     retry();
   }
 
@@ -0,0 +1,354 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Readable} from 'stream';
+
+import {CancellableStream} from './apitypes';
+import {OngoingCall, watchCallOutcome} from './call';
+import {Descriptor} from './descriptor';
+import {CallSettings} from './gax';
+import {GoogleError} from './googleError';
+import {LongRunningDescriptor} from './longRunningCalls/longRunningDescriptor';
+import {Status} from './status';
+import {loadOpenTelemetryApi} from './tracing';
+
+/**
+ * The method a metric is recorded for, and the outcome of the call or of
+ * the attempt, if any.
+ * @typedef {Object} MetricAttributes
+ * @property {string} service - the name of the service, e.g.
+ *   `google.example.v1.Library`.
+ * @property {string} method - the name of the method, e.g. `GetBook`.
+ * @property {Status=} code - the status code of the call or of the attempt,
+ *   OK if it succeeded.
+ */
+export interface MetricAttributes {
+  service: string;
+  method: string;
+  code?: Status;
+}
+
+/**
+ * Receives the metrics of the calls, e.g. to export them to a monitoring
+ * system. All the functions are optional.
+ * @typedef {Object} MetricsRecorder
+ * @property {function(number, MetricAttributes)=} recordCallLatency - the
+ *   duration of a call in milliseconds, from its start to its response, or
+ *   to the end of a stream.
+ * @property {function(number, MetricAttributes)=} recordAttemptLatency - the
+ *   duration of an attempt in milliseconds.
+ * @property {function(number, MetricAttributes)=} recordAttemptCount - the
+ *   number of attempts made by a call, summed over the pages of paged calls.
+ * @property {function(MetricAttributes)=} recordCallStatus - counts a
+ *   finished call, with its status code.
+ * @property {function(number, MetricAttributes)=} recordBundleSize - the
+ *   number of elements sent by a bundled request.
+ * @property {function(number, MetricAttributes)=} recordPollCount - the
+ *   number of polls made until a long-running operation completed.
+ * @property {function(number, MetricAttributes)=} recordStreamMessages - the
+ *   number of messages received by a stream.
+ */
+export interface MetricsRecorder {
+  recordCallLatency?(millis: number, attributes: MetricAttributes): void;
+  recordAttemptLatency?(millis: number, attributes: MetricAttributes): void;
+  recordAttemptCount?(attempts: number, attributes: MetricAttributes): void;
+  recordCallStatus?(attributes: MetricAttributes): void;
+  recordBundleSize?(elements: number, attributes: MetricAttributes): void;
+  recordPollCount?(polls: number, attributes: MetricAttributes): void;
+  recordStreamMessages?(messages: number, attributes: MetricAttributes): void;
+}
+
+/**
+ * A call being metered, see {@link meterCall}.
+ * @private
+ */
+export interface MeteredCall {
+  // the settings of the call, timing each of its attempts
+  settings: CallSettings;
+  // records the metrics of the call when the ongoing call finishes
+  watch(call: OngoingCall | CancellableStream): void;
+}
+
+function methodAttributes(settings: CallSettings): MetricAttributes {
+  return {
+    service: settings.apiName ?? 'unknown',
+    method: settings.methodName ?? 'unknown',
+  };
+}
+
+function statusCode(error: GoogleError | null): Status {
+  return error ? (error.code ?? Status.UNKNOWN) : Status.OK;
+}
+
+/**
+ * Starts metering a call: its latency, the latency of its attempts, their
+ * number, its status code, the polls of a long-running operation and the
+ * messages of a stream are recorded by the recorder.
+ *
+ * @private
+ *
+ * @param {MetricsRecorder} recorder - the recorder of the metrics.
+ * @param {CallSettings} settings - the settings of the call. They are not
+ *   modified.
+ * @param {Descriptor=} descriptor - the descriptor of the method.
+ * @return {MeteredCall} the metered call.
+ */
+export function meterCall(
+  recorder: MetricsRecorder,
+  settings: CallSettings,
+  descriptor?: Descriptor,
+): MeteredCall {
+  const attributes = methodAttributes(settings);
+  const longrunning = descriptor instanceof LongRunningDescriptor;
+  const start = Date.now();
+  const attemptStarts = new Map<number, number>();
+  let series = 0;
+  let attempts = 0;
+  let callEnded = false;
+
+  const endAttempt = (attempt: number, error: GoogleError | null) => {
+    const attemptStart = attemptStarts.get(attempt);
+    if (attemptStart !== undefined) {
+      attemptStarts.delete(attempt);
+      recorder.recordAttemptLatency?.(Date.now() - attemptStart, {
+        ...attributes,
+        code: statusCode(error),
+      });
+    }
+  };
+  const endCall = (error: GoogleError | null, messages?: number) => {
+    if (callEnded) {
+      return;
+    }
+    callEnded = true;
+    const outcome = {...attributes, code: statusCode(error)};
+    recorder.recordCallLatency?.(Date.now() - start, outcome);
+    recorder.recordCallStatus?.(outcome);
+    if (attempts > 0) {
+      recorder.recordAttemptCount?.(attempts, outcome);
+    }
+    if (messages !== undefined) {
+      recorder.recordStreamMessages?.(messages, outcome);
+    }
+  };
+
+  const metered = new CallSettings(settings);
+  const hooks = settings.hooks;
+  metered.hooks = {
+    onAttemptStart: event => {
+      if (!(longrunning && series > 0)) {
+        attemptStarts.set(event.attempt, Date.now());
+      }
+      hooks?.onAttemptStart?.(event);
+    },
+    onAttemptFailure: event => {
+      endAttempt(event.attempt, event.error);
+      hooks?.onAttemptFailure?.(event);
+    },
+    onCallFinish: event => {
+      for (const attempt of Array.from(attemptStarts.keys())) {
+        endAttempt(attempt, event.error);
+      }
+      if (longrunning && series > 0) {
+        recorder.recordPollCount?.(event.attempts, {
+          ...attributes,
+          code: statusCode(event.error),
+        });
+      } else {
+        attempts += event.attempts;
+      }
+      ++series;
+      hooks?.onCallFinish?.(event);
+    },
+  };
+
+  return {
+    settings: metered,
+    watch(call: OngoingCall | CancellableStream) {
+      // The number of messages received by a stream that can be read.
+      let messages: number | undefined;
+      const stream = call as unknown as Readable;
+      if (!(call instanceof OngoingCall) && stream.readable) {
+        // Listening to the data would make the stream flow: the messages are
+        // counted as they are pushed to the reader instead.
+        messages = 0;
+        const push = stream.push;
+        stream.push = (chunk: unknown, encoding?: BufferEncoding) => {
+          if (chunk !== null) {
+            ++messages!;
+          }
+          return push.call(stream, chunk, encoding);
+        };
+      }
+      watchCallOutcome(call, err => endCall(err, messages));
+    },
+  };
+}
+
+/**
+ * Returns the function recording the size of the bundles sent by a method,
+ * if its metrics are recorded.
+ *
+ * @private
+ *
+ * @param {CallSettings} settings - the settings of the method.
+ * @return {function(number)|undefined} the function recording the number of
+ *   elements of a bundle.
+ */
+export function bundleSizeRecorder(
+  settings: CallSettings,
+): ((elements: number) => void) | undefined {
+  const recorder = settings.metrics;
+  if (!recorder?.recordBundleSize) {
+    return undefined;
+  }
+  const attributes = methodAttributes(settings);
+  return elements => recorder.recordBundleSize!(elements, attributes);
+}
+
+export interface Histogram {
+  record(value: number, attributes?: {[key: string]: string | number}): void;
+}
+
+export interface Counter {
+  add(value: number, attributes?: {[key: string]: string | number}): void;
+}
+
+export interface Meter {
+  createHistogram(
+    name: string,
+    options?: {description?: string; unit?: string},
+  ): Histogram;
+  createCounter(
+    name: string,
+    options?: {description?: string; unit?: string},
+  ): Counter;
+}
+
+/**
+ * The parts of the `@opentelemetry/api` module used by the metrics.
+ */
+export interface OpenTelemetryMetricsApi {
+  metrics: {
+    getMeter(name: string, version?: string): Meter;
+  };
+}
+
+/**
+ * Configures an {@link OpenTelemetryMetricsRecorder}.
+ * @typedef {Object} OpenTelemetryMetricsOptions
+ * @property {Object=} api - the `@opentelemetry/api` module. By default, it
+ *   is loaded with `require`.
+ */
+export interface OpenTelemetryMetricsOptions {
+  api?: OpenTelemetryMetricsApi;
+}
+
+const METER_NAME = 'google-gax';
+
+/**
+ * Records the metrics of the calls with the OpenTelemetry metrics API, on
+ * the `google-gax` meter. The instruments are `gax.call.duration`,
+ * `gax.attempt.duration`, `gax.call.attempts`, `gax.calls`,
+ * `gax.bundle.size`, `gax.operation.polls` and `gax.stream.messages`, with
+ * the `rpc.service`, `rpc.method` and `rpc.grpc.status_code` attributes.
+ */
+export class OpenTelemetryMetricsRecorder implements MetricsRecorder {
+  private readonly callDuration: Histogram;
+  private readonly attemptDuration: Histogram;
+  private readonly attempts: Histogram;
+  private readonly calls: Counter;
+  private readonly bundleSize: Histogram;
+  private readonly polls: Histogram;
+  private readonly streamMessages: Histogram;
+
+  /**
+   * @param {OpenTelemetryMetricsOptions=} options - the options of the
+   *   recorder.
+   * @constructor
+   */
+  constructor(options: OpenTelemetryMetricsOptions = {}) {
+    const api = options.api ?? loadOpenTelemetryApi<OpenTelemetryMetricsApi>();
+    if (!api) {
+      throw new Error(
+        'OpenTelemetryMetricsRecorder requires @opentelemetry/api to be installed.',
+      );
+    }
+    const meter = api.metrics.getMeter(METER_NAME);
+    this.callDuration = meter.createHistogram('gax.call.duration', {
+      description: 'The duration of the calls.',
+      unit: 'ms',
+    });
+    this.attemptDuration = meter.createHistogram('gax.attempt.duration', {
+      description: 'The duration of the attempts of the calls.',
+      unit: 'ms',
+    });
+    this.attempts = meter.createHistogram('gax.call.attempts', {
+      description: 'The number of attempts made by the calls.',
+    });
+    this.calls = meter.createCounter('gax.calls', {
+      description: 'The number of finished calls.',
+    });
+    this.bundleSize = meter.createHistogram('gax.bundle.size', {
+      description: 'The number of elements of the bundled requests.',
+    });
+    this.polls = meter.createHistogram('gax.operation.polls', {
+      description: 'The number of polls of the long-running operations.',
+    });
+    this.streamMessages = meter.createHistogram('gax.stream.messages', {
+      description: 'The number of messages received by the streams.',
+    });
+  }
+
+  recordCallLatency(millis: number, attributes: MetricAttributes) {
+    this.callDuration.record(millis, otelAttributes(attributes));
+  }
+
+  recordAttemptLatency(millis: number, attributes: MetricAttributes) {
+    this.attemptDuration.record(millis, otelAttributes(attributes));
+  }
+
+  recordAttemptCount(attempts: number, attributes: MetricAttributes) {
+    this.attempts.record(attempts, otelAttributes(attributes));
+  }
+
+  recordCallStatus(attributes: MetricAttributes) {
+    this.calls.add(1, otelAttributes(attributes));
+  }
+
+  recordBundleSize(elements: number, attributes: MetricAttributes) {
+    this.bundleSize.record(elements, otelAttributes(attributes));
+  }
+
+  recordPollCount(polls: number, attributes: MetricAttributes) {
+    this.polls.record(polls, otelAttributes(attributes));
+  }
+
+  recordStreamMessages(messages: number, attributes: MetricAttributes) {
+    this.streamMessages.record(messages, otelAttributes(attributes));
+  }
+}
+
+function otelAttributes(attributes: MetricAttributes) {
+  const otel: {[key: string]: string | number} = {
+    'rpc.service': attributes.service,
+    'rpc.method': attributes.method,
+  };
+  if (attributes.code !== undefined) {
+    otel['rpc.grpc.status_code'] = attributes.code;
+  }
+  return otel;
+}
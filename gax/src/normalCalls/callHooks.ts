@@ -0,0 +1,45 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {APICallback, RequestType, SimpleCallbackFunction} from '../apitypes';
+import {CallHooks} from '../gax';
+
+/**
+ * Creates a function equivalent to func, a call made in a single attempt,
+ * that calls the hooks of the call.
+ *
+ * @private
+ *
+ * @param {SimpleCallbackFunction} func - A function.
+ * @param {CallHooks} hooks - the functions called when the attempt starts
+ *   and fails, and when the call finishes.
+ * @return {SimpleCallbackFunction} A function calling the hooks.
+ */
+export function withCallHooks(
+  func: SimpleCallbackFunction,
+  hooks: CallHooks,
+): SimpleCallbackFunction {
+  return (argument: RequestType, callback: APICallback) => {
+    hooks.onAttemptStart?.({attempt: 1});
+    return func(argument, (err, response, next, rawResponse) => {
+      if (err) {
+        hooks.onAttemptFailure?.({attempt: 1, error: err});
+      }
+      hooks.onCallFinish?.({attempts: 1, error: err});
+      callback(err, response, next, rawResponse);
+    });
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Status} from '../status';
+
+import {
+  APICallback,
+  GRPCCall,
+  GRPCCallOtherArgs,
+  GRPCCallResult,
+  NextPageRequestType,
+  RawResponseType,
+  RequestType,
+  ResponseType,
+  SimpleCallbackFunction,
+} from '../apitypes';
+import {CallHooks, HedgingOptions} from '../gax';
+import {GoogleError} from '../googleError';
+import {RateLimiter, withRateLimiter} from '../rateLimiter';
+
+import {addTimeoutArg} from './timeout';
+
+/**
+ * Creates a function equivalent to func, but that sends parallel attempts
+ * of the call when it is slow to answer.
+ *
+ * @private
+ *
+ * @param {GRPCCall} func - A function.
+ * @param {HedgingOptions} hedging - Configures the number of attempts and the
+ *   delay between them.
+ * @param {number} timeout - the timeout of each attempt.
+ * @param {GRPCCallOtherArgs} otherArgs - the additional arguments to be passed to func.
+ * @param {CallHooks=} hooks - the functions called when attempts start and
+ *   fail, and when the call finishes.
+ * @param {RateLimiter=} rateLimiter - the limiter each attempt waits for
+ *   before being sent.
+ * @return {SimpleCallbackFunction} A function that will hedge.
+ */
+export function hedged(
+  func: GRPCCall,
+  hedging: HedgingOptions,
+  timeout: number,
+  otherArgs: GRPCCallOtherArgs,
+  hooks?: CallHooks,
+  rateLimiter?: RateLimiter,
+): SimpleCallbackFunction {
+  const maxAttempts = hedging.maxAttempts;
+  const nonFatalCodes = hedging.nonFatalCodes ?? [];
+
+  /**
+   * Equivalent to ``func``, but sends a new attempt every
+   * ``hedgingDelayMillis`` until one of them answers.
+   * @param {RequestType} argument The request object.
+   * @param {APICallback} callback The callback.
+   * @return {GRPCCall}
+   */
+  return (argument: RequestType, callback: APICallback) => {
+    const inFlight = new Map<number, GRPCCallResult>();
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+    let sent = 0;
+    let pending = 0;
+    let completed = false;
+    let cancelled = false;
+
+    function stopHedging() {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+        timeoutId = null;
+      }
+    }
+
+    /** Completes the call and cancels the attempts still pending. */
+    function finish(
+      err: GoogleError | null,
+      response?: ResponseType,
+      next?: NextPageRequestType,
+      rawResponse?: RawResponseType,
+    ) {
+      completed = true;
+      stopHedging();
+      for (const canceller of inFlight.values()) {
+        canceller.cancel();
+      }
+      inFlight.clear();
+      hooks?.onCallFinish?.({attempts: sent, error: err});
+      callback(err, response, next, rawResponse);
+    }
+
+    /** Sends a new attempt of the call. */
+    function send() {
+      timeoutId = null;
+      const attempt = sent++;
+      pending++;
+      let attemptDone = false;
+      hooks?.onAttemptStart?.({attempt: attempt + 1});
+      let toCall = addTimeoutArg(func, timeout, otherArgs);
+      if (rateLimiter) {
+        toCall = withRateLimiter(toCall, rateLimiter);
+      }
+      const canceller = toCall(argument, (err, response, next, rawResponse) => {
+        attemptDone = true;
+        pending--;
+        inFlight.delete(attempt);
+        if (completed) {
+          return;
+        }
+        if (!err) {
+          finish(null, response, next, rawResponse);
+          return;
+        }
+        hooks?.onAttemptFailure?.({attempt: attempt + 1, error: err});
+        if (!cancelled && nonFatalCodes.indexOf(err.code!) >= 0) {
+          if (sent < maxAttempts) {
+            stopHedging();
+            send();
+            return;
+          }
+          if (pending > 0) {
+            return;
+          }
+        } else if (!cancelled) {
+          err.note =
+            'Exception occurred in hedged attempt that was ' +
+            'not classified as non-fatal';
+        }
+        finish(err);
+      });
+      if (canceller instanceof Promise) {
+        canceller.catch(err => {
+          if (!completed) {
+            finish(new GoogleError(err));
+          }
+        });
+      }
+      if (attemptDone) {
+        return;
+      }
+      inFlight.set(attempt, canceller);
+      if (sent < maxAttempts) {
+        timeoutId = setTimeout(send, hedging.hedgingDelayMillis);
+      }
+    }
+
+    if (!(maxAttempts >= 1) || !(hedging.hedgingDelayMillis >= 0)) {
+      const error = new GoogleError(
+        'maxAttempts should be at least 1 and hedgingDelayMillis ' +
+          'should not be negative in hedging options.',
+      );
+      error.code = Status.INVALID_ARGUMENT;
+      callback(error);
+    } else {
+      send();
+    }
+
+    return {
+      cancel() {
+        cancelled = true;
+        stopHedging();
+        if (inFlight.size > 0) {
+          for (const canceller of inFlight.values()) {
+            canceller.cancel();
+          }
+        } else if (!completed) {
+          const error = new GoogleError('cancelled');
+          error.code = Status.CANCELLED;
+          finish(error);
+        }
+      },
+    };
+  };
+}
@@ -24,8 +24,12 @@ import {
   RequestType,
   SimpleCallbackFunction,
 } from '../apitypes';
-import {RetryOptions} from '../gax';
-import {GoogleError} from '../googleError';
+import {getRemainingDeadlineMillis} from '../deadline';
+import {CallHooks, RetryOptions, computeRetryDelay} from '../gax';
+import {AttemptRecord, GoogleError} from '../googleError';
+import {logCallEvent, methodLabel, statusName} from '../logging';
+import {RateLimiter, withRateLimiter} from '../rateLimiter';
+import {RetryBudget} from '../retryBudget';
 
 import {addTimeoutArg} from './timeout';
 
@@ -40,6 +44,14 @@ import {addTimeoutArg} from './timeout';
  *   function eshould retry, and the parameters to the exponential backoff retry
  *   algorithm.
  * @param {GRPCCallOtherArgs} otherArgs - the additional arguments to be passed to func.
+ * @param {string=} apiName - the name of the API, used in error messages.
+ * @param {RetryBudget=} retryBudget - the budget spent by each retry and
+ *   refilled by each successful call. No retries are made once it's exhausted.
+ * @param {CallHooks=} hooks - the functions called when attempts start and
+ *   fail, and when the call finishes.
+ * @param {RateLimiter=} rateLimiter - the limiter each attempt waits for
+ *   before being sent.
+ * @param {string=} methodName - the name of the method, used in the logs.
  * @return {SimpleCallbackFunction} A function that will retry.
  */
 export function retryable(
@@ -47,6 +59,10 @@ export function retryable(
   retry: RetryOptions,
   otherArgs: GRPCCallOtherArgs,
   apiName?: string,
+  retryBudget?: RetryBudget,
+  hooks?: CallHooks,
+  rateLimiter?: RateLimiter,
+  methodName?: string,
 ): SimpleCallbackFunction {
   const delayMult = retry.backoffSettings.retryDelayMultiplier;
   const maxDelay = retry.backoffSettings.maxRetryDelayMillis;
@@ -65,7 +81,11 @@ export function retryable(
    * @param {APICallback} callback The callback.
    * @return {GRPCCall}
    */
-  return (argument: RequestType, callback: APICallback) => {
+  return (argument: RequestType, originalCallback: APICallback) => {
+    const callback: APICallback = (err, response, next, rawResponse) => {
+      hooks?.onCallFinish?.({attempts: retries, error: err});
+      originalCallback(err, response, next, rawResponse);
+    };
     let canceller: GRPCCallResult | null;
     let timeoutId: ReturnType<typeof setTimeout> | null;
     let now = new Date();
@@ -73,12 +93,23 @@ export function retryable(
     if (retry.backoffSettings.totalTimeoutMillis) {
       deadline = now.getTime() + retry.backoffSettings.totalTimeoutMillis;
     }
+    // The deadline set by withDeadline, if any, which stops the retries
+    // whether they are limited by totalTimeoutMillis or by maxRetries.
+    const remainingMillis = getRemainingDeadlineMillis();
+    const ambientDeadline =
+      remainingMillis === undefined
+        ? undefined
+        : now.getTime() + remainingMillis;
     let retries = 0;
+    let previousSleep = retry.backoffSettings.initialRetryDelayMillis;
     const maxRetries = retry.backoffSettings.maxRetries!;
     // For retries, errorsEncountered maintains a list of errors encountered so
     // that they can be sent back to the user and the user can see ALL errors
     // that were encountered during a series of retries.
     const errorsEncountered: GoogleError[] = [];
+    // The same errors, with the number, start time and duration of their
+    // attempts, attached to the error the call ends with.
+    const attempts: AttemptRecord[] = [];
 
     // The errors that were encountered should be immediately visible to the
     // user so we should concatenate them onto the details because details are
@@ -124,7 +155,23 @@ export function retryable(
           } before any response was received.${errorDetailsSuffix(errorsEncountered)}`,
         );
         error.code = Status.DEADLINE_EXCEEDED;
-        callback(error);
+        callback(GoogleError.withAttempts(error, attempts));
+        return;
+      }
+
+      if (
+        retries &&
+        ambientDeadline !== undefined &&
+        now.getTime() >= ambientDeadline
+      ) {
+        const error = new GoogleError(
+          `Deadline exceeded while retrying the call to API ${apiName} ` +
+            (err ? `after error ${err} ` : '') +
+            'before any response was received.' +
+            errorDetailsSuffix(errorsEncountered),
+        );
+        error.code = Status.DEADLINE_EXCEEDED;
+        callback(GoogleError.withAttempts(error, attempts));
         return;
       }
 
@@ -136,18 +183,32 @@ export function retryable(
             errorDetailsSuffix(errorsEncountered),
         );
         error.code = Status.DEADLINE_EXCEEDED;
-        callback(error);
+        callback(GoogleError.withAttempts(error, attempts));
         return;
       }
 
       retries++;
+      hooks?.onAttemptStart?.({attempt: retries});
+      const attempt = retries;
+      const startTime = new Date();
       let lastError = err;
-      const toCall = addTimeoutArg(func, timeout!, otherArgs);
+      let toCall = addTimeoutArg(func, timeout!, otherArgs);
+      if (rateLimiter) {
+        toCall = withRateLimiter(toCall, rateLimiter);
+      }
       canceller = toCall(argument, (err, response, next, rawResponse) => {
         if (err) {
           lastError = err;
+          attempts.push({
+            attempt,
+            startTime,
+            durationMillis: new Date().getTime() - startTime.getTime(),
+            code: err.code,
+            error: GoogleError.parseGRPCStatusDetails(err),
+          });
         }
         if (!err) {
+          retryBudget?.recordSuccess();
           callback(null, response, next, rawResponse);
           return;
         }
@@ -159,9 +220,64 @@ export function retryable(
           err.note =
             'Exception occurred in retry method that was ' +
             'not classified as transient';
-          callback(err);
+          hooks?.onAttemptFailure?.({attempt: retries, error: err});
+          // The transient failures before it are attached, as when retries
+          // are exhausted, but not its own attempt: the error would contain
+          // itself.
+          callback(
+            attempts.length > 1
+              ? GoogleError.withAttempts(err, attempts.slice(0, -1))
+              : err,
+          );
+        } else if (retryBudget && !retryBudget.tryAcquire()) {
+          const error = new GoogleError(
+            `Retry budget of API ${apiName} exhausted, not retrying error ${err}.` +
+              errorDetailsSuffix(errorsEncountered.concat(err)),
+          );
+          error.code = err.code;
+          error.metadata = err.metadata;
+          error.note = 'Retries are disabled until enough calls succeed';
+          hooks?.onAttemptFailure?.({attempt: retries, error: err});
+          callback(GoogleError.withAttempts(error, attempts));
         } else {
-          const toSleep = Math.random() * delay;
+          let toSleep = computeRetryDelay(
+            retry.backoffSettings,
+            delay,
+            previousSleep,
+          );
+          // If the server sent google.rpc.RetryInfo, wait as long as it asks,
+          // but no longer than the backoff settings allow.
+          const serverDelay =
+            GoogleError.parseGRPCStatusDetails(err).retryDelayMillis;
+          if (serverDelay !== undefined) {
+            const remaining = deadline
+              ? Math.max(deadline - new Date().getTime(), 0)
+              : Infinity;
+            toSleep = Math.min(serverDelay, maxDelay, remaining);
+          }
+          if (ambientDeadline !== undefined) {
+            toSleep = Math.min(
+              toSleep,
+              Math.max(ambientDeadline - new Date().getTime(), 0),
+            );
+          }
+          previousSleep = toSleep;
+          const method = methodLabel(apiName, methodName);
+          const status = statusName(err.code);
+          logCallEvent(
+            'INFO',
+            {method, attempt: retries, status, delayMillis: toSleep},
+            'attempt %d of %s failed with %s, retrying in %dms',
+            retries,
+            method,
+            status,
+            toSleep,
+          );
+          hooks?.onAttemptFailure?.({
+            attempt: retries,
+            error: err,
+            delayMillis: toSleep,
+          });
           timeoutId = setTimeout(() => {
             now = new Date();
             delay = Math.min(delay * delayMult, maxDelay);
@@ -169,7 +285,16 @@ export function retryable(
               timeout && timeoutMult ? timeout * timeoutMult : 0;
             const rpcTimeout = maxTimeout ? maxTimeout : 0;
             const newDeadline = deadline ? deadline - now.getTime() : Infinity;
-            timeout = Math.min(timeoutCal, rpcTimeout, newDeadline);
+            const ambientRemaining =
+              ambientDeadline !== undefined
+                ? ambientDeadline - now.getTime()
+                : Infinity;
+            timeout = Math.min(
+              timeoutCal,
+              rpcTimeout,
+              newDeadline,
+              ambientRemaining,
+            );
             repeat(lastError);
           }, toSleep);
         }
@@ -204,7 +329,7 @@ export function retryable(
             'cancelled' + errorDetailsSuffix(errorsEncountered),
           );
           error.code = Status.CANCELLED;
-          callback(error);
+          callback(GoogleError.withAttempts(error, attempts));
         }
       },
     };
@@ -0,0 +1,402 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  APICallback,
+  GRPCCallResult,
+  RequestType,
+  SimpleCallbackFunction,
+} from './apitypes';
+import {GoogleError} from './googleError';
+import {Status} from './status';
+
+/**
+ * Parameters of a {@link RateLimiter}.
+ * @typedef {Object} RateLimiterOptions
+ * @property {number} requestsPerSecond - the sustained rate of requests.
+ * @property {number=} burst - the number of requests that can be sent at
+ *   once after a quiet period. Defaults to requestsPerSecond, and at least 1.
+ * @property {number=} maxQueueSize - the number of requests that can wait for
+ *   their turn. Requests over it fail right away. Defaults to 1000.
+ * @property {number=} maxWaitMillis - how long a request can wait for its
+ *   turn before failing. By default, requests wait as long as needed.
+ */
+export interface RateLimiterOptions {
+  requestsPerSecond: number;
+  burst?: number;
+  maxQueueSize?: number;
+  maxWaitMillis?: number;
+}
+
+/**
+ * Parameters of an {@link AdaptiveRateLimiter}.
+ * @typedef {Object} AdaptiveRateLimiterOptions
+ * @property {number} requestsPerSecond - the initial, and highest, rate of
+ *   requests.
+ * @property {number=} minRequestsPerSecond - the lowest rate the limiter
+ *   slows down to. Defaults to 1, or to requestsPerSecond if it is lower.
+ * @property {number=} decreaseFactor - the factor applied to the rate after
+ *   a quota failure. Defaults to 0.5.
+ * @property {number=} additiveIncrease - how much the rate grows, in
+ *   requests per second, for each second of successful requests sent at
+ *   the current rate. Defaults to 1.
+ * @property {number=} decreaseIntervalMillis - the time after a decrease
+ *   during which other quota failures do not decrease the rate again, as
+ *   they were likely caused by requests sent before it. Defaults to 1000.
+ */
+export interface AdaptiveRateLimiterOptions extends RateLimiterOptions {
+  minRequestsPerSecond?: number;
+  decreaseFactor?: number;
+  additiveIncrease?: number;
+  decreaseIntervalMillis?: number;
+}
+
+interface Waiter {
+  callback: (err: GoogleError | null) => void;
+  timeoutId?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * A token bucket limiting the rate of the requests sent by all the calls that
+ * share it. Requests over the rate are not sent: they wait in a queue, in
+ * order, until the bucket has refilled. Each attempt of a retried call is a
+ * request, so that retries cannot exceed the rate either.
+ *
+ * Its scope is the set of calls that share it: either all the methods of a
+ * client, by passing it as `rateLimiter` in the client options, or a single
+ * method, by passing it in the {@link CallOptions} of its calls.
+ */
+export class RateLimiter {
+  readonly burst: number;
+  readonly maxQueueSize: number;
+  readonly maxWaitMillis?: number;
+  private _requestsPerSecond: number;
+  private _tokens: number;
+  private _refilledAt: number;
+  private _queue: Waiter[] = [];
+  private _timeoutId?: ReturnType<typeof setTimeout>;
+
+  /**
+   * @param {RateLimiterOptions} options - the parameters of the limiter.
+   * @constructor
+   */
+  constructor(options: RateLimiterOptions) {
+    this._requestsPerSecond = options.requestsPerSecond;
+    this.burst = options.burst ?? Math.max(this._requestsPerSecond, 1);
+    this.maxQueueSize = options.maxQueueSize ?? 1000;
+    this.maxWaitMillis = options.maxWaitMillis;
+    if (!(this._requestsPerSecond > 0)) {
+      throw new Error('requestsPerSecond should be a positive number');
+    }
+    if (!(this.burst >= 1)) {
+      throw new Error('burst should be at least 1');
+    }
+    if (!(this.maxQueueSize >= 0)) {
+      throw new Error('maxQueueSize should be a non-negative number');
+    }
+    if (this.maxWaitMillis !== undefined && !(this.maxWaitMillis >= 0)) {
+      throw new Error('maxWaitMillis should be a non-negative number');
+    }
+    this._tokens = this.burst;
+    this._refilledAt = Date.now();
+  }
+
+  /**
+   * The rate of requests currently allowed.
+   */
+  get requestsPerSecond(): number {
+    return this._requestsPerSecond;
+  }
+
+  /**
+   * The number of requests waiting for their turn.
+   */
+  get queueLength(): number {
+    return this._queue.length;
+  }
+
+  /**
+   * Waits for the turn of a request. The callback is called synchronously
+   * when the request can be sent right away.
+   *
+   * @param {function(?GoogleError)} callback - called with null when the
+   *   request can be sent, or with a RESOURCE_EXHAUSTED error if the queue
+   *   is full or the request waited for too long.
+   * @return {function(): boolean} a function removing the request from the
+   *   queue. It returns false if the request already left the queue.
+   */
+  acquire(callback: (err: GoogleError | null) => void): () => boolean {
+    this.refill();
+    if (this._queue.length === 0 && this._tokens >= 1) {
+      this._tokens--;
+      callback(null);
+      return () => false;
+    }
+    if (this._queue.length >= this.maxQueueSize) {
+      callback(
+        this.createError(
+          `Rate limit queue is full (${this.maxQueueSize} requests), ` +
+            'the call was not sent.',
+        ),
+      );
+      return () => false;
+    }
+    const waiter: Waiter = {callback};
+    if (this.maxWaitMillis !== undefined) {
+      waiter.timeoutId = setTimeout(() => {
+        this.remove(waiter);
+        callback(
+          this.createError(
+            `Rate limit not available after ${this.maxWaitMillis} ` +
+              'milliseconds, the call was not sent.',
+          ),
+        );
+      }, this.maxWaitMillis);
+    }
+    this._queue.push(waiter);
+    this.schedule();
+    return () => this.remove(waiter);
+  }
+
+  /**
+   * Records the outcome of a request sent after {@link RateLimiter#acquire}.
+   * This limiter has a fixed rate and ignores it.
+   *
+   * @param {GoogleError=} err - the error of the request, if it failed.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  record(err?: GoogleError | null): void {}
+
+  /**
+   * Changes the rate of the requests. The waiting requests are sent at the
+   * new rate.
+   *
+   * @param {number} requestsPerSecond - the new rate.
+   * @param {boolean=} pause - whether to wait for a new token before sending
+   *   the next request, even if the bucket is not empty.
+   */
+  protected setRate(requestsPerSecond: number, pause = false) {
+    // The tokens earned so far are counted at the previous rate.
+    this.refill();
+    this._requestsPerSecond = requestsPerSecond;
+    if (pause) {
+      this._tokens = Math.min(this._tokens, 0);
+    }
+    if (this._timeoutId) {
+      clearTimeout(this._timeoutId);
+      this._timeoutId = undefined;
+    }
+    this.schedule();
+  }
+
+  private refill() {
+    const now = Date.now();
+    this._tokens = Math.min(
+      this.burst,
+      this._tokens + ((now - this._refilledAt) * this.requestsPerSecond) / 1000,
+    );
+    this._refilledAt = now;
+  }
+
+  private schedule() {
+    if (this._timeoutId || this._queue.length === 0) {
+      return;
+    }
+    const wait = Math.ceil(
+      ((1 - this._tokens) * 1000) / this.requestsPerSecond,
+    );
+    this._timeoutId = setTimeout(
+      () => {
+        this._timeoutId = undefined;
+        this.drain();
+      },
+      Math.max(wait, 0),
+    );
+  }
+
+  private drain() {
+    this.refill();
+    while (this._queue.length > 0 && this._tokens >= 1) {
+      this._tokens--;
+      const waiter = this._queue.shift()!;
+      clearTimeout(waiter.timeoutId);
+      waiter.callback(null);
+    }
+    this.schedule();
+  }
+
+  private remove(waiter: Waiter): boolean {
+    const index = this._queue.indexOf(waiter);
+    if (index < 0) {
+      return false;
+    }
+    this._queue.splice(index, 1);
+    clearTimeout(waiter.timeoutId);
+    if (this._queue.length === 0 && this._timeoutId) {
+      clearTimeout(this._timeoutId);
+      this._timeoutId = undefined;
+    }
+    return true;
+  }
+
+  private createError(message: string) {
+    const error = new GoogleError(message);
+    error.code = Status.RESOURCE_EXHAUSTED;
+    error.note = `Calls are limited to ${this.requestsPerSecond} requests per second`;
+    return error;
+  }
+}
+
+/**
+ * A rate limiter adapting its rate to the quota of the service, with an
+ * additive-increase / multiplicative-decrease algorithm: each failure with
+ * RESOURCE_EXHAUSTED and google.rpc.QuotaFailure details divides the rate,
+ * and each successful request increases it a little, up to its initial rate.
+ *
+ * Shared by all the methods of a client, through the `rateLimiter` client
+ * option, it slows the whole client down when the quota is exceeded.
+ */
+export class AdaptiveRateLimiter extends RateLimiter {
+  readonly maxRequestsPerSecond: number;
+  readonly minRequestsPerSecond: number;
+  readonly decreaseFactor: number;
+  readonly additiveIncrease: number;
+  readonly decreaseIntervalMillis: number;
+  private _decreasedAt = -Infinity;
+
+  /**
+   * @param {AdaptiveRateLimiterOptions} options - the parameters of the
+   *   limiter.
+   * @constructor
+   */
+  constructor(options: AdaptiveRateLimiterOptions) {
+    super(options);
+    this.maxRequestsPerSecond = options.requestsPerSecond;
+    this.minRequestsPerSecond =
+      options.minRequestsPerSecond ?? Math.min(1, options.requestsPerSecond);
+    this.decreaseFactor = options.decreaseFactor ?? 0.5;
+    this.additiveIncrease = options.additiveIncrease ?? 1;
+    this.decreaseIntervalMillis = options.decreaseIntervalMillis ?? 1000;
+    if (
+      !(this.minRequestsPerSecond > 0) ||
+      this.minRequestsPerSecond > this.maxRequestsPerSecond
+    ) {
+      throw new Error(
+        'minRequestsPerSecond should be a positive number, ' +
+          'not greater than requestsPerSecond',
+      );
+    }
+    if (!(this.decreaseFactor > 0 && this.decreaseFactor < 1)) {
+      throw new Error('decreaseFactor should be between 0 and 1');
+    }
+    if (!(this.additiveIncrease >= 0)) {
+      throw new Error('additiveIncrease should be a non-negative number');
+    }
+    if (!(this.decreaseIntervalMillis >= 0)) {
+      throw new Error('decreaseIntervalMillis should be a non-negative number');
+    }
+  }
+
+  /**
+   * Records the outcome of a request sent after {@link RateLimiter#acquire},
+   * and adapts the rate to it.
+   *
+   * @param {GoogleError=} err - the error of the request, if it failed.
+   */
+  record(err?: GoogleError | null): void {
+    if (!err) {
+      // At the current rate, the rate grows by additiveIncrease per second.
+      const rate = Math.min(
+        this.maxRequestsPerSecond,
+        this.requestsPerSecond + this.additiveIncrease / this.requestsPerSecond,
+      );
+      if (rate !== this.requestsPerSecond) {
+        this.setRate(rate);
+      }
+      return;
+    }
+    if (err.code !== Status.RESOURCE_EXHAUSTED) {
+      return;
+    }
+    const violations = GoogleError.parseGRPCStatusDetails(err).quotaViolations;
+    if (!violations || violations.length === 0) {
+      return;
+    }
+    const now = Date.now();
+    if (now - this._decreasedAt < this.decreaseIntervalMillis) {
+      return;
+    }
+    this._decreasedAt = now;
+    this.setRate(
+      Math.max(
+        this.minRequestsPerSecond,
+        this.requestsPerSecond * this.decreaseFactor,
+      ),
+      true,
+    );
+  }
+}
+
+/**
+ * Creates a function equivalent to func, but that waits for its turn in the
+ * rate limiter before sending the call.
+ *
+ * @private
+ *
+ * @param {SimpleCallbackFunction} func - A function.
+ * @param {RateLimiter} rateLimiter - the limiter of the calls.
+ * @return {SimpleCallbackFunction} A function limited by the rate limiter.
+ */
+export function withRateLimiter(
+  func: SimpleCallbackFunction,
+  rateLimiter: RateLimiter,
+): SimpleCallbackFunction {
+  return (argument: RequestType, callback: APICallback) => {
+    let canceller: GRPCCallResult | undefined;
+    let queued = false;
+    const leaveQueue = rateLimiter.acquire(err => {
+      if (err) {
+        callback(err);
+        return;
+      }
+      canceller = func(argument, (err, response, next, rawResponse) => {
+        rateLimiter.record(err);
+        callback(err, response, next, rawResponse);
+      });
+      if (queued && canceller instanceof Promise) {
+        canceller.catch(err => {
+          callback(new GoogleError(err));
+        });
+      }
+    });
+    queued = true;
+    if (canceller) {
+      // Sent right away: the caller handles the canceller as usual.
+      return canceller;
+    }
+    return {
+      cancel() {
+        if (canceller) {
+          canceller.cancel();
+        } else if (leaveQueue()) {
+          const error = new GoogleError('cancelled');
+          error.code = Status.CANCELLED;
+          callback(error);
+        }
+      },
+    };
+  };
+}
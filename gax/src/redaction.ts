@@ -0,0 +1,253 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * How a redacted value is replaced: by a fixed marker, or by a hash of the
+ * value, which still tells apart different values. Without a key, the hash
+ * of a guessable value, e.g. an email or a phone number, can be found by
+ * hashing the candidates: only the keyed hashes hide such values.
+ */
+export type RedactionMode = 'mask' | 'hash';
+
+/**
+ * The names of the fields always redacted unless `builtInRules` is false,
+ * compared ignoring case and underscores.
+ */
+const SENSITIVE_FIELD_NAMES = new Set([
+  'password',
+  'passwd',
+  'secret',
+  'clientsecret',
+  'token',
+  'accesstoken',
+  'refreshtoken',
+  'idtoken',
+  'apikey',
+  'privatekey',
+  'authorization',
+  'credentials',
+  'cookie',
+  'setcookie',
+]);
+
+/**
+ * The values always redacted unless `builtInRules` is false, whatever the
+ * name of their field: OAuth access tokens, JSON Web Tokens, API keys,
+ * `Authorization` header values and PEM private keys.
+ */
+const SENSITIVE_VALUE_PATTERNS = [
+  /^ya29\.[\w.-]+$/,
+  /^eyJ[\w-]+\.eyJ[\w-]+\.[\w-]*$/,
+  /^AIza[\w-]{35}$/,
+  /^(?:Bearer|Basic)\s+\S+$/i,
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----/,
+];
+
+// The length of the hashes, in hexadecimal digits.
+const HASH_LENGTH = 16;
+
+/**
+ * Parameters of a {@link Redactor}.
+ * @typedef {Object} RedactionOptions
+ * @property {string[]=} fields - the paths of the fields to redact, e.g.
+ *   `user.email`. A `*` matches any field, and the elements of arrays are
+ *   matched by the path of the array, e.g. `users.email` redacts the email
+ *   of all the users. Field names are compared ignoring case and
+ *   underscores, so `user.email_address` also matches `user.emailAddress`.
+ * @property {RedactionMode=} mode - how the values are replaced. Defaults to
+ *   `mask`.
+ * @property {(string|Uint8Array)=} hashKey - the secret key of the hashes of
+ *   the `hash` mode, which are then HMAC-SHA256 rather than plain SHA-256
+ *   hashes. Without it, the values that can be guessed are not hidden.
+ * @property {string=} marker - the value replacing the redacted ones.
+ *   Defaults to `[REDACTED]`.
+ * @property {boolean=} builtInRules - whether the fields known to hold
+ *   credentials, such as `password`, `accessToken` or `apiKey`, are redacted
+ *   wherever they are, along with the strings that look like credentials,
+ *   such as OAuth access tokens, JSON Web Tokens, API keys or private keys,
+ *   whatever their field. Other sensitive values, e.g. emails, are only
+ *   redacted by `fields`. Defaults to true.
+ */
+export interface RedactionOptions {
+  fields?: string[];
+  mode?: RedactionMode;
+  hashKey?: string | Uint8Array;
+  marker?: string;
+  builtInRules?: boolean;
+}
+
+function normalizeFieldName(name: string): string {
+  return name.replace(/_/g, '').toLowerCase();
+}
+
+function isSensitiveValue(value: string): boolean {
+  return SENSITIVE_VALUE_PATTERNS.some(pattern => pattern.test(value));
+}
+
+function isBinary(value: object): boolean {
+  return ArrayBuffer.isView(value) || value instanceof ArrayBuffer;
+}
+
+/**
+ * Redacts the fields of the payloads logged by gax, i.e. the plain objects
+ * of the requests and responses, such as those produced by `transcode` or
+ * `toProto3JSON`. The payloads are copied, never modified.
+ *
+ * A single instance is meant to be shared by all the methods of a client,
+ * by passing its options as `logRedaction` in the client options.
+ */
+export class Redactor {
+  readonly mode: RedactionMode;
+  readonly marker: string;
+  readonly builtInRules: boolean;
+  private _hashKey?: string | Uint8Array;
+  private _paths: string[][];
+
+  /**
+   * @param {RedactionOptions=} options - the fields to redact and how.
+   * @constructor
+   */
+  constructor(options: RedactionOptions = {}) {
+    this.mode = options.mode ?? 'mask';
+    this.marker = options.marker ?? '[REDACTED]';
+    this.builtInRules = options.builtInRules ?? true;
+    if (this.mode !== 'mask' && this.mode !== 'hash') {
+      throw new Error(`Unknown redaction mode: ${this.mode}`);
+    }
+    if (options.hashKey !== undefined && options.hashKey.length === 0) {
+      throw new Error('The hash key should not be empty');
+    }
+    this._hashKey = options.hashKey;
+    this._paths = (options.fields ?? []).map(path => {
+      if (path === '') {
+        throw new Error('The paths of the redacted fields should not be empty');
+      }
+      return path.split('.').map(normalizeFieldName);
+    });
+  }
+
+  /**
+   * Returns a copy of a payload with its sensitive fields redacted.
+   *
+   * @param {*} value - the payload.
+   * @return {*} the redacted copy, or the value itself if it is neither an
+   *   object nor a sensitive string.
+   */
+  redact<T>(value: T): T {
+    return this._redact(value, [], new Set()) as T;
+  }
+
+  // ancestors holds the objects being copied, to stop at circular references
+  private _redact(
+    value: unknown,
+    path: string[],
+    ancestors: Set<object>,
+  ): unknown {
+    if (
+      typeof value === 'string' &&
+      this.builtInRules &&
+      isSensitiveValue(value)
+    ) {
+      return this._replace(value);
+    }
+    if (
+      typeof value !== 'object' ||
+      value === null ||
+      isBinary(value) ||
+      value instanceof Date
+    ) {
+      return value;
+    }
+    if (ancestors.has(value)) {
+      return '[Circular]';
+    }
+    ancestors.add(value);
+    let redacted: unknown;
+    if (Array.isArray(value)) {
+      redacted = value.map(element => this._redact(element, path, ancestors));
+    } else {
+      const fields: {[field: string]: unknown} = {};
+      for (const [field, fieldValue] of Object.entries(value)) {
+        const fieldPath = path.concat(normalizeFieldName(field));
+        fields[field] = this._isSensitive(fieldPath)
+          ? this._replace(fieldValue)
+          : this._redact(fieldValue, fieldPath, ancestors);
+      }
+      redacted = fields;
+    }
+    ancestors.delete(value);
+    return redacted;
+  }
+
+  private _isSensitive(path: string[]): boolean {
+    if (this.builtInRules && SENSITIVE_FIELD_NAMES.has(path[path.length - 1])) {
+      return true;
+    }
+    return this._paths.some(
+      redactedPath =>
+        redactedPath.length === path.length &&
+        redactedPath.every(
+          (segment, index) => segment === '*' || segment === path[index],
+        ),
+    );
+  }
+
+  private _replace(value: unknown): unknown {
+    if (value === undefined || value === null) {
+      return value;
+    }
+    if (this.mode === 'mask') {
+      return this.marker;
+    }
+    const hash = hashValue(value, this._hashKey);
+    // without a hash, e.g. in browsers, the marker is used instead
+    if (hash === undefined) {
+      return this.marker;
+    }
+    return this._hashKey === undefined ? `sha256:${hash}` : `hmac:${hash}`;
+  }
+}
+
+function hashValue(
+  value: unknown,
+  key?: string | Uint8Array,
+): string | undefined {
+  try {
+    let serialized: string;
+    if (typeof value === 'string') {
+      serialized = value;
+    } else if (typeof value === 'object' && isBinary(value!)) {
+      serialized = Buffer.from(value as Uint8Array).toString('base64');
+    } else {
+      serialized = JSON.stringify(value) ?? String(value);
+    }
+    const crypto = require('crypto');
+    const hash =
+      key === undefined
+        ? crypto.createHash('sha256')
+        : crypto.createHmac('sha256', key);
+    return hash.update(serialized).digest('hex').slice(0, HASH_LENGTH);
+  } catch (err) {
+    // e.g. circular structures, or no crypto module
+    return undefined;
+  }
+}
+
+/**
+ * The redactor of the calls without one, only applying the built-in rules.
+ * @private
+ */
+export const DEFAULT_REDACTOR = new Redactor();
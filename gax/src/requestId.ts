@@ -0,0 +1,148 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  APICallback,
+  CancellableStream,
+  GRPCCall,
+  GRPCCallOtherArgs,
+  RequestType,
+  SimpleCallbackFunction,
+} from './apitypes';
+import {CallSettings} from './gax';
+import {GoogleError} from './googleError';
+
+const REQUEST_ID_HEADER = 'x-goog-request-id';
+const ATTEMPT_HEADER = 'x-goog-request-attempt';
+
+/**
+ * Makes the settings of a call send its request ID, and the number of the
+ * attempt, with each of its attempts.
+ *
+ * @private
+ *
+ * @param {CallSettings} settings - the settings of the call, with
+ *   `requestId` set. They are not modified.
+ * @param {string} requestId - the ID of the call.
+ * @return {CallSettings} the settings sending the request ID.
+ */
+export function applyRequestId(
+  settings: CallSettings,
+  requestId: string,
+): CallSettings {
+  const requestIdHeader =
+    settings.requestId?.requestIdHeader ?? REQUEST_ID_HEADER;
+  const attemptHeader = settings.requestId?.attemptHeader ?? ATTEMPT_HEADER;
+  const withRequestId = new CallSettings(settings);
+  const otherArgs = settings.otherArgs as GRPCCallOtherArgs;
+  const metadataBuilder = otherArgs.metadataBuilder;
+  if (metadataBuilder) {
+    let attempt = 0;
+    withRequestId.otherArgs = {
+      ...otherArgs,
+      // The metadata is built once for each attempt of the call.
+      metadataBuilder: (abTests?: {}, headers?: {}) =>
+        metadataBuilder(abTests, {
+          ...headers,
+          [requestIdHeader]: requestId,
+          [attemptHeader]: `${++attempt}`,
+        }),
+    };
+  }
+  const hooks = settings.hooks;
+  if (hooks) {
+    withRequestId.hooks = {
+      onAttemptStart:
+        hooks.onAttemptStart &&
+        (event => hooks.onAttemptStart!({...event, requestId})),
+      onAttemptFailure:
+        hooks.onAttemptFailure &&
+        (event => hooks.onAttemptFailure!({...event, requestId})),
+      onCallFinish:
+        hooks.onCallFinish &&
+        (event => hooks.onCallFinish!({...event, requestId})),
+    };
+  }
+  return withRequestId;
+}
+
+function withRequestIdCallback(
+  callback: APICallback,
+  requestId: string,
+): APICallback {
+  return (err, response, next, rawResponse) => {
+    if (err) {
+      err.requestId = requestId;
+    }
+    callback(err, response, next, rawResponse);
+  };
+}
+
+/**
+ * Creates a function equivalent to func, but that sets the request ID of the
+ * call on its errors.
+ *
+ * @private
+ *
+ * @param {SimpleCallbackFunction} func - A function.
+ * @param {string} requestId - the ID of the call.
+ * @return {SimpleCallbackFunction} A function failing with the request ID.
+ */
+export function withRequestId(
+  func: SimpleCallbackFunction,
+  requestId: string,
+): SimpleCallbackFunction {
+  return (argument: RequestType, callback: APICallback) => {
+    return func(argument, withRequestIdCallback(callback, requestId));
+  };
+}
+
+/**
+ * Creates a streaming function equivalent to func, but that sets the request
+ * ID of the call on the errors of its streams.
+ *
+ * @private
+ *
+ * @param {GRPCCall} func - A streaming function, wrapped by
+ *   StreamingApiCaller.
+ * @param {string} requestId - the ID of the call.
+ * @return {GRPCCall} A function whose streams fail with the request ID.
+ */
+export function withStreamRequestId(
+  func: GRPCCall,
+  requestId: string,
+): GRPCCall {
+  return (argument: {}, metadata: {}, options: {}, callback?: APICallback) => {
+    const stream = (
+      func as (
+        argument: {},
+        metadata: {},
+        options: {},
+        callback?: APICallback,
+      ) => CancellableStream
+    )(
+      argument,
+      metadata,
+      options,
+      callback && withRequestIdCallback(callback, requestId),
+    );
+    // Registered before the listeners of gax, so that they see the ID.
+    stream.on('error', (err: GoogleError) => {
+      err.requestId = requestId;
+    });
+    return stream;
+  };
+}
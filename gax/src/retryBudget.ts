@@ -0,0 +1,105 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Parameters of a {@link RetryBudget}.
+ * @typedef {Object} RetryBudgetOptions
+ * @property {number=} maxTokens - the capacity of the budget. The budget
+ *   starts full. Defaults to 100.
+ * @property {number=} retryCost - the number of tokens spent by each retry
+ *   attempt. Defaults to 1.
+ * @property {number=} tokenRatio - the number of tokens given back by each
+ *   successful call. Defaults to 0.1, i.e. ten successful calls pay for
+ *   one retry.
+ */
+export interface RetryBudgetOptions {
+  maxTokens?: number;
+  retryCost?: number;
+  tokenRatio?: number;
+}
+
+/**
+ * A token bucket limiting the number of retries made by all the calls that
+ * share it. Every retry spends tokens and every successful call refills the
+ * bucket. Once the bucket is empty, failed calls are not retried anymore and
+ * return their error right away, so that a client does not amplify the load
+ * on a backend that is already failing.
+ *
+ * A single instance is meant to be shared by all the methods of a client,
+ * either by passing it as `retryBudget` in the client options, or per call
+ * in {@link CallOptions}.
+ */
+export class RetryBudget {
+  readonly maxTokens: number;
+  readonly retryCost: number;
+  readonly tokenRatio: number;
+  private _tokens: number;
+
+  /**
+   * @param {RetryBudgetOptions=} options - the parameters of the budget.
+   * @constructor
+   */
+  constructor(options: RetryBudgetOptions = {}) {
+    this.maxTokens = options.maxTokens ?? 100;
+    this.retryCost = options.retryCost ?? 1;
+    this.tokenRatio = options.tokenRatio ?? 0.1;
+    if (!(this.maxTokens > 0)) {
+      throw new Error('maxTokens should be a positive number');
+    }
+    if (!(this.retryCost > 0)) {
+      throw new Error('retryCost should be a positive number');
+    }
+    if (!(this.tokenRatio >= 0)) {
+      throw new Error('tokenRatio should be a non-negative number');
+    }
+    this._tokens = this.maxTokens;
+  }
+
+  /**
+   * The number of tokens currently left in the budget.
+   */
+  get tokens(): number {
+    return this._tokens;
+  }
+
+  /**
+   * Whether the budget is too low to pay for another retry.
+   */
+  get exhausted(): boolean {
+    return this._tokens < this.retryCost;
+  }
+
+  /**
+   * Spends the cost of one retry attempt, if the budget allows it.
+   *
+   * @return {boolean} true if the retry may be sent, false if the budget is
+   *   exhausted.
+   */
+  tryAcquire(): boolean {
+    if (this.exhausted) {
+      return false;
+    }
+    this._tokens -= this.retryCost;
+    return true;
+  }
+
+  /**
+   * Gives tokens back to the budget after a successful call.
+   */
+  recordSuccess(): void {
+    this._tokens = Math.min(this.maxTokens, this._tokens + this.tokenRatio);
+  }
+}
@@ -0,0 +1,389 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  CallOptions,
+  createMaxRetriesBackoffSettings,
+  createRetryOptions,
+} from './gax';
+import {Status} from './status';
+
+/**
+ * The methods a {@link GrpcMethodConfig} applies to: a single method when
+ * both fields are set, all the methods of a service when only `service` is
+ * set, and all the methods of all the services when neither is set.
+ * @typedef {Object} GrpcMethodName
+ * @property {string=} service - the fully-qualified name of the service.
+ * @property {string=} method - the name of the method, as in the proto.
+ */
+export interface GrpcMethodName {
+  service?: string;
+  method?: string;
+}
+
+/**
+ * The `retryPolicy` of a {@link GrpcMethodConfig}.
+ * @typedef {Object} GrpcRetryPolicy
+ * @property {number} maxAttempts - the number of attempts, including the
+ *   first one. Should be greater than 1.
+ * @property {string} initialBackoff - the delay before the first retry, as a
+ *   duration such as `"0.1s"`.
+ * @property {string} maxBackoff - the longest delay between two attempts.
+ * @property {number} backoffMultiplier - the factor applied to the delay
+ *   after each retry.
+ * @property {Array<string|number>} retryableStatusCodes - the status codes,
+ *   such as `"UNAVAILABLE"`, of the errors that are retried.
+ */
+export interface GrpcRetryPolicy {
+  maxAttempts: number;
+  initialBackoff: string;
+  maxBackoff: string;
+  backoffMultiplier: number;
+  retryableStatusCodes: Array<string | number>;
+}
+
+/**
+ * The `hedgingPolicy` of a {@link GrpcMethodConfig}.
+ * @typedef {Object} GrpcHedgingPolicy
+ * @property {number} maxAttempts - the number of attempts, including the
+ *   first one. Should be greater than 1.
+ * @property {string=} hedgingDelay - the delay after which another attempt
+ *   is sent, as a duration such as `"0.5s"`. Defaults to `"0s"`.
+ * @property {Array<string|number>=} nonFatalStatusCodes - the status codes of
+ *   the errors after which the other attempts go on.
+ */
+export interface GrpcHedgingPolicy {
+  maxAttempts: number;
+  hedgingDelay?: string;
+  nonFatalStatusCodes?: Array<string | number>;
+}
+
+/**
+ * An entry of the `methodConfig` of a {@link GrpcServiceConfig}.
+ * @typedef {Object} GrpcMethodConfig
+ * @property {GrpcMethodName[]} name - the methods it applies to.
+ * @property {string=} timeout - the timeout of the calls, as a duration such
+ *   as `"30s"`.
+ * @property {GrpcRetryPolicy=} retryPolicy - how the calls are retried.
+ * @property {GrpcHedgingPolicy=} hedgingPolicy - how the calls are hedged.
+ *   It cannot be set along with retryPolicy.
+ */
+export interface GrpcMethodConfig {
+  name: GrpcMethodName[];
+  timeout?: string;
+  retryPolicy?: GrpcRetryPolicy;
+  hedgingPolicy?: GrpcHedgingPolicy;
+}
+
+/**
+ * A standard gRPC service config, as found along with the protos of many
+ * services. Only its `methodConfig` is used, other fields are ignored.
+ * See https://github.com/grpc/grpc/blob/master/doc/service_config.md.
+ * @typedef {Object} GrpcServiceConfig
+ * @property {GrpcMethodConfig[]=} methodConfig - the settings of the methods.
+ */
+export interface GrpcServiceConfig {
+  methodConfig?: GrpcMethodConfig[];
+}
+
+/**
+ * Tells a gRPC service config apart from a GAPIC client config.
+ *
+ * @param {Object} config - a configuration object.
+ * @return {boolean} whether it is a gRPC service config.
+ */
+export function isGrpcServiceConfig(config: {}): config is GrpcServiceConfig {
+  return !!config && 'methodConfig' in config;
+}
+
+const DURATION_REGEX = /^\d+(\.\d{1,9})?s$/;
+
+// Converts a google.protobuf.Duration in its JSON form, e.g. "1.5s", to
+// milliseconds.
+function durationToMillis(duration: string): number {
+  return Number(duration.slice(0, -1)) * 1000;
+}
+
+function isDuration(value: unknown): value is string {
+  return typeof value === 'string' && DURATION_REGEX.test(value);
+}
+
+function toStatusCode(code: string | number): number {
+  return typeof code === 'number' ? code : Status[code as keyof typeof Status];
+}
+
+function isStatusCode(code: unknown): code is string | number {
+  if (typeof code === 'number') {
+    return Number.isInteger(code) && code in Status;
+  }
+  return typeof code === 'string' && typeof Status[code as never] === 'number';
+}
+
+function isObject(value: unknown): value is {[key: string]: unknown} {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateStatusCodes(
+  codes: unknown,
+  path: string,
+  required: boolean,
+  errors: string[],
+) {
+  if (codes === undefined && !required) {
+    return;
+  }
+  if (!Array.isArray(codes) || (required && codes.length === 0)) {
+    errors.push(
+      `${path} should be ${required ? 'a non-empty' : 'an'} array of status codes`,
+    );
+    return;
+  }
+  codes.forEach((code, index) => {
+    if (!isStatusCode(code)) {
+      errors.push(`${path}[${index}] is not a status code: ${code}`);
+    }
+  });
+}
+
+function validateMaxAttempts(
+  policy: {[key: string]: unknown},
+  path: string,
+  errors: string[],
+) {
+  const maxAttempts = policy.maxAttempts;
+  if (!Number.isInteger(maxAttempts) || (maxAttempts as number) < 2) {
+    errors.push(`${path}.maxAttempts should be an integer greater than 1`);
+  }
+}
+
+function validateRetryPolicy(policy: unknown, path: string, errors: string[]) {
+  if (!isObject(policy)) {
+    errors.push(`${path} should be an object`);
+    return;
+  }
+  validateMaxAttempts(policy, path, errors);
+  for (const key of ['initialBackoff', 'maxBackoff']) {
+    const backoff = policy[key];
+    if (!isDuration(backoff) || durationToMillis(backoff) <= 0) {
+      errors.push(`${path}.${key} should be a positive duration, e.g. "1s"`);
+    }
+  }
+  const multiplier = policy.backoffMultiplier;
+  if (typeof multiplier !== 'number' || !(multiplier > 0)) {
+    errors.push(`${path}.backoffMultiplier should be a positive number`);
+  }
+  validateStatusCodes(
+    policy.retryableStatusCodes,
+    `${path}.retryableStatusCodes`,
+    true,
+    errors,
+  );
+}
+
+function validateHedgingPolicy(
+  policy: unknown,
+  path: string,
+  errors: string[],
+) {
+  if (!isObject(policy)) {
+    errors.push(`${path} should be an object`);
+    return;
+  }
+  validateMaxAttempts(policy, path, errors);
+  if (policy.hedgingDelay !== undefined && !isDuration(policy.hedgingDelay)) {
+    errors.push(`${path}.hedgingDelay should be a duration, e.g. "0.5s"`);
+  }
+  validateStatusCodes(
+    policy.nonFatalStatusCodes,
+    `${path}.nonFatalStatusCodes`,
+    false,
+    errors,
+  );
+}
+
+/**
+ * Checks that a gRPC service config is well-formed, and that each method is
+ * named by a single entry of its `methodConfig`.
+ *
+ * @param {Object} config - the parsed service config JSON.
+ * @return {string[]} the problems found, empty if the config is valid.
+ */
+export function validateServiceConfig(config: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(config)) {
+    return ['the service config should be an object'];
+  }
+  const methodConfigs = config.methodConfig;
+  if (methodConfigs === undefined) {
+    return errors;
+  }
+  if (!Array.isArray(methodConfigs)) {
+    return ['methodConfig should be an array'];
+  }
+  const names = new Set<string>();
+  methodConfigs.forEach((methodConfig: unknown, index) => {
+    const path = `methodConfig[${index}]`;
+    if (!isObject(methodConfig)) {
+      errors.push(`${path} should be an object`);
+      return;
+    }
+    if (!Array.isArray(methodConfig.name)) {
+      errors.push(`${path}.name should be an array`);
+    } else {
+      methodConfig.name.forEach((name: unknown, nameIndex) => {
+        const namePath = `${path}.name[${nameIndex}]`;
+        if (!isObject(name)) {
+          errors.push(`${namePath} should be an object`);
+          return;
+        }
+        const {service, method} = name;
+        if (service !== undefined && typeof service !== 'string') {
+          errors.push(`${namePath}.service should be a string`);
+        }
+        if (method !== undefined && typeof method !== 'string') {
+          errors.push(`${namePath}.method should be a string`);
+        }
+        if (method && !service) {
+          errors.push(`${namePath} has a method but no service`);
+        }
+        const key = `${service || ''}/${method || ''}`;
+        if (names.has(key)) {
+          errors.push(`${namePath} is a duplicate name: ${key}`);
+        }
+        names.add(key);
+      });
+    }
+    if (
+      methodConfig.timeout !== undefined &&
+      !isDuration(methodConfig.timeout)
+    ) {
+      errors.push(`${path}.timeout should be a duration, e.g. "30s"`);
+    }
+    if (
+      methodConfig.retryPolicy !== undefined &&
+      methodConfig.hedgingPolicy !== undefined
+    ) {
+      errors.push(`${path} cannot have both a retryPolicy and a hedgingPolicy`);
+    }
+    if (methodConfig.retryPolicy !== undefined) {
+      validateRetryPolicy(
+        methodConfig.retryPolicy,
+        `${path}.retryPolicy`,
+        errors,
+      );
+    }
+    if (methodConfig.hedgingPolicy !== undefined) {
+      validateHedgingPolicy(
+        methodConfig.hedgingPolicy,
+        `${path}.hedgingPolicy`,
+        errors,
+      );
+    }
+  });
+  return errors;
+}
+
+/**
+ * Finds the entry of a gRPC service config that applies to a method: the
+ * one naming the method, else the one naming its service, else the default
+ * one.
+ *
+ * @private
+ *
+ * @param {GrpcServiceConfig} config - a valid service config.
+ * @param {string} serviceName - the fully-qualified name of the service.
+ * @param {string} methodName - the name of the method, as in the proto.
+ * @return {?GrpcMethodConfig} the entry, or undefined if there is none.
+ */
+function findMethodConfig(
+  config: GrpcServiceConfig,
+  serviceName: string,
+  methodName: string,
+): GrpcMethodConfig | undefined {
+  const methodConfigs = config.methodConfig || [];
+  const matches = (service?: string, method?: string) =>
+    methodConfigs.find(methodConfig =>
+      methodConfig.name.some(
+        name =>
+          (name.service || undefined) === service &&
+          (name.method || undefined) === method,
+      ),
+    );
+  return (
+    matches(serviceName, methodName) ??
+    matches(serviceName, undefined) ??
+    matches(undefined, undefined)
+  );
+}
+
+/**
+ * Turns the entry of a gRPC service config applying to a method into call
+ * options. With a retryPolicy, the timeout applies to each attempt: it is
+ * not a total timeout, as the number of attempts is bounded by maxAttempts.
+ *
+ * @private
+ *
+ * @param {GrpcServiceConfig} config - a valid service config.
+ * @param {string} serviceName - the fully-qualified name of the service.
+ * @param {string} methodName - the name of the method, as in the proto.
+ * @param {number} defaultTimeout - the timeout of the method, in
+ *   milliseconds, if the service config does not set one.
+ * @return {CallOptions} the timeout, retry and hedging options of the method.
+ */
+export function methodOptionsFromServiceConfig(
+  config: GrpcServiceConfig,
+  serviceName: string,
+  methodName: string,
+  defaultTimeout: number,
+): CallOptions {
+  const methodConfig = findMethodConfig(config, serviceName, methodName);
+  const options: CallOptions = {};
+  if (!methodConfig) {
+    return options;
+  }
+  let timeout = defaultTimeout;
+  if (methodConfig.timeout !== undefined) {
+    timeout = options.timeout = durationToMillis(methodConfig.timeout);
+  }
+  const retryPolicy = methodConfig.retryPolicy;
+  if (retryPolicy) {
+    const backoffSettings = createMaxRetriesBackoffSettings(
+      durationToMillis(retryPolicy.initialBackoff),
+      retryPolicy.backoffMultiplier,
+      durationToMillis(retryPolicy.maxBackoff),
+      timeout,
+      1,
+      timeout,
+      retryPolicy.maxAttempts,
+    );
+    // maxRetries counts the attempts of unary calls, but only the retries of
+    // streaming calls, which go by maxAttempts instead.
+    backoffSettings.maxAttempts = retryPolicy.maxAttempts;
+    options.retry = createRetryOptions(
+      retryPolicy.retryableStatusCodes.map(toStatusCode),
+      backoffSettings,
+    );
+  }
+  const hedgingPolicy = methodConfig.hedgingPolicy;
+  if (hedgingPolicy) {
+    options.hedging = {
+      maxAttempts: hedgingPolicy.maxAttempts,
+      hedgingDelayMillis: durationToMillis(hedgingPolicy.hedgingDelay ?? '0s'),
+      nonFatalCodes: hedgingPolicy.nonFatalStatusCodes?.map(toStatusCode),
+    };
+  }
+  return options;
+}
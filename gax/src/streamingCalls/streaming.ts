@@ -18,6 +18,7 @@
 
 import {Duplex, DuplexOptions, Readable, Stream, Writable} from 'stream';
 
+import {createAbortError} from '../abortSignal';
 import {
   APICallback,
   CancellableStream,
@@ -26,11 +27,16 @@ import {
   SimpleCallbackFunction,
 } from '../apitypes';
 import {
+  CallHooks,
   RetryOptions,
   RetryRequestOptions,
+  computeRetryDelay,
   createDefaultBackoffSettings,
 } from '../gax';
-import {GoogleError} from '../googleError';
+import {getRemainingDeadlineMillis} from '../deadline';
+import {AttemptRecord, GoogleError} from '../googleError';
+import {logCallEvent, statusName} from '../logging';
+import {RetryBudget} from '../retryBudget';
 import {Status} from '../status';
 import {PassThrough} from 'stream';
 import {ResponseType} from '../apitypes';
@@ -93,6 +99,28 @@ interface streamingRetryRequestOptions {
   request: Function;
   retry: RetryOptions;
   maxRetries?: number;
+  retryBudget?: RetryBudget;
+  hooks?: CallHooks;
+  method?: string;
+}
+
+/**
+ * The error of a stream whose retries were stopped by the deadline set by
+ * withDeadline.
+ * @param {Error} originalError - the error of the last attempt.
+ * @param {AttemptRecord[]} attempts - the failed attempts of the call.
+ * @return {GoogleError} the DEADLINE_EXCEEDED error.
+ */
+function ambientDeadlineExceededError(
+  originalError: Error,
+  attempts: AttemptRecord[],
+): GoogleError {
+  const error = new GoogleError(
+    `Deadline exceeded while retrying the stream after error ${originalError} ` +
+      'before any response was received.',
+  );
+  error.code = Status.DEADLINE_EXCEEDED;
+  return GoogleError.withAttempts(error, attempts);
 }
 
 export class StreamProxy extends duplexify implements GRPCCallResult {
@@ -148,6 +176,34 @@ export class StreamProxy extends duplexify implements GRPCCallResult {
     }
   }
 
+  /**
+   * Aborts the stream when the signal is aborted: the API call is cancelled
+   * and the stream is destroyed with a CANCELLED error.
+   * @param {AbortSignal} signal - the signal aborting the stream.
+   */
+  setAbortSignal(signal: AbortSignal) {
+    const onAbort = () => {
+      this._isCancelCalled = true;
+      // Destroyed first, so that the error of the cancelled call is not
+      // emitted.
+      this.destroy(createAbortError(signal));
+      if (this.stream) {
+        this.stream.cancel();
+      }
+    };
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, {once: true});
+    const removeListener = () => {
+      signal.removeEventListener('abort', onAbort);
+    };
+    this.once('end', removeListener);
+    this.once('finish', removeListener);
+    this.once('close', removeListener);
+  }
+
   /**
    * Helper function to handle total timeout + max retry check for server streaming retries
    * @param {number} deadline - the current retry deadline
@@ -156,6 +212,8 @@ export class StreamProxy extends duplexify implements GRPCCallResult {
    * @param {GoogleError} originalError - underlying error received by the stream
    * @param {originalTimeout} originalTimeout - the original Timeout set in backoff settings
    * @param {retries} retries - the number of retries the call has made so far
+   * @param {AttemptRecord[]} attempts - the failed attempts of the call, attached to the error
+   * @param {number=} ambientDeadline - the deadline set by withDeadline, if any
    */
   throwIfMaxRetriesOrTotalTimeoutExceeded(
     deadline: number,
@@ -164,10 +222,15 @@ export class StreamProxy extends duplexify implements GRPCCallResult {
     originalError: GoogleError,
     originalTimeout: number | undefined,
     retries: number,
+    attempts: AttemptRecord[] = [],
+    ambientDeadline?: number,
   ): void {
     const now = new Date();
 
     const nowTime = now.getTime();
+    if (ambientDeadline !== undefined && nowTime >= ambientDeadline) {
+      throw ambientDeadlineExceededError(originalError, attempts);
+    }
     if (
       originalTimeout &&
       (totalTimeoutMillis === 0 ||
@@ -180,7 +243,7 @@ export class StreamProxy extends duplexify implements GRPCCallResult {
         } before any response was received.`,
       );
       error.code = Status.DEADLINE_EXCEEDED;
-      throw error;
+      throw GoogleError.withAttempts(error, attempts);
     }
     if (maxRetries === 0) {
       const error: GoogleError = originalError;
@@ -194,7 +257,7 @@ export class StreamProxy extends duplexify implements GRPCCallResult {
           'before any response was received',
       );
       error.code = Status.DEADLINE_EXCEEDED;
-      throw error;
+      throw GoogleError.withAttempts(error, attempts);
     }
   }
 
@@ -293,12 +356,20 @@ export class StreamProxy extends duplexify implements GRPCCallResult {
    * @param {RetryOptions} retry - Configures the exceptions upon which the
    *   function should retry, and the parameters to the exponential backoff retry
    *   algorithm.
+   * @param {RetryBudget=} retryBudget - the budget limiting the retries made
+   *   by gax server streaming retries.
+   * @param {CallHooks=} hooks - the functions called during the lifecycle of
+   *   a call retried by gax server streaming retries.
+   * @param {string=} method - the method called, used in the logs.
    */
   setStream(
     apiCall: SimpleCallbackFunction,
     argument: {},
     retryRequestOptions: RetryRequestOptions = {},
     retry: RetryOptions,
+    retryBudget?: RetryBudget,
+    hooks?: CallHooks,
+    method?: string,
   ) {
     this.apiCall = apiCall;
     this.argument = argument;
@@ -319,7 +390,13 @@ export class StreamProxy extends duplexify implements GRPCCallResult {
           const stream = apiCall(argument, this._callback) as CancellableStream;
           return stream;
         };
-        const retryStream = this.newStreamingRetryRequest({request, retry});
+        const retryStream = this.newStreamingRetryRequest({
+          request,
+          retry,
+          retryBudget,
+          hooks,
+          method,
+        });
         this.stream = retryStream as unknown as CancellableStream;
         this.eventForwardHelper(retryStream);
         this.setReadable(retryStream!);
@@ -375,6 +452,9 @@ export class StreamProxy extends duplexify implements GRPCCallResult {
    * @param {streamingRetryRequestOptions} opts
    *   {request} - the request to be made if the stream errors
    *   {retry} - the retry options associated with the call
+   *   {retryBudget} - the budget spent by retries and refilled by successful streams
+   *   {hooks} - the functions called when attempts start and fail, and when the call finishes
+   *   {method} - the method called, used in the logs
    * @returns {CancellableStream} - the stream that handles retry logic
    */
   private newStreamingRetryRequest(
@@ -386,20 +466,63 @@ export class StreamProxy extends duplexify implements GRPCCallResult {
       retryCodes: [],
       backoffSettings: createDefaultBackoffSettings(),
     };
+    const retryBudget = opts.retryBudget;
+    const hooks = opts.hooks;
     let retries = 0;
+    let attempts = 0;
+    let attemptStart = new Date();
+    // the failed attempts, attached to the error the stream ends with
+    const attemptRecords: AttemptRecord[] = [];
+    // the error of the last attempt, until it's reported to the hooks
+    let attemptError: GoogleError | undefined;
+    let callFinished = false;
     const retryStream = new PassThrough({
       objectMode: true,
     }) as unknown as CancellableStream;
+    const reportAttemptFailure = (delayMillis?: number) => {
+      if (attemptError) {
+        hooks?.onAttemptFailure?.({
+          attempt: attempts,
+          error: attemptError,
+          delayMillis,
+        });
+        attemptError = undefined;
+      }
+    };
+    const finishCall = (error: GoogleError | null) => {
+      if (!callFinished) {
+        callFinished = true;
+        reportAttemptFailure();
+        hooks?.onCallFinish?.({attempts, error});
+      }
+    };
+    if (hooks) {
+      retryStream.on('error', finishCall);
+    }
 
     const totalTimeout = retry.backoffSettings.totalTimeoutMillis ?? undefined;
-    const maxRetries = retry.backoffSettings.maxRetries ?? undefined;
+    // maxAttempts, when set, counts the first attempt too.
+    const maxAttempts = retry.backoffSettings.maxAttempts;
+    const maxRetries =
+      maxAttempts !== undefined
+        ? maxAttempts - 1
+        : (retry.backoffSettings.maxRetries ?? undefined);
     let timeout = retry.backoffSettings.initialRpcTimeoutMillis ?? undefined;
+    let delay = retry.backoffSettings.initialRetryDelayMillis;
+    let previousSleep = delay;
 
     let now = new Date();
     let deadline = 0;
     if (totalTimeout) {
       deadline = now.getTime() + totalTimeout;
     }
+    // The deadline set by withDeadline, if any, which stops the retries
+    // whether they are limited by totalTimeoutMillis or by maxRetries.
+    const remainingMillis = getRemainingDeadlineMillis();
+    const ambientDeadline =
+      remainingMillis === undefined
+        ? undefined
+        : now.getTime() + remainingMillis;
     const transientErrorHelper = (
       error: Error,
       requestStream: CancellableStream,
@@ -415,6 +538,11 @@ export class StreamProxy extends duplexify implements GRPCCallResult {
 
       return retryStream;
     };
+    const endRetryStream = () => {
+      retryBudget?.recordSuccess();
+      finishCall(null);
+      retryStream.end();
+    };
     const newMakeRequest = (newopts: streamingRetryRequestOptions) => {
       let dataEnd = false;
       let statusReceived = false;
@@ -422,6 +550,9 @@ export class StreamProxy extends duplexify implements GRPCCallResult {
       let enteredError = false;
 
       // make the request
+      attempts++;
+      attemptStart = new Date();
+      hooks?.onAttemptStart?.({attempt: attempts});
       const requestStream = newopts.request!(requestOps);
       retryStream.cancel = requestStream.cancel; // make sure the retryStream is also cancellable by the user
 
@@ -460,7 +591,7 @@ export class StreamProxy extends duplexify implements GRPCCallResult {
       requestStream.on('status', () => {
         statusReceived = true;
         if (dataEnd) {
-          retryStream.end();
+          endRetryStream();
         }
         return retryStream;
       });
@@ -471,7 +602,7 @@ export class StreamProxy extends duplexify implements GRPCCallResult {
           // in this case, we've already received "status"
           // which is the last event from gRPC, so it's cool to end the stream
           if (statusReceived) {
-            retryStream.end();
+            endRetryStream();
           }
         }
         return retryStream;
@@ -483,6 +614,14 @@ export class StreamProxy extends duplexify implements GRPCCallResult {
       });
       requestStream.on('error', (error: Error) => {
         enteredError = true;
+        attemptError = GoogleError.parseGRPCStatusDetails(error);
+        attemptRecords.push({
+          attempt: attempts,
+          startTime: attemptStart,
+          durationMillis: new Date().getTime() - attemptStart.getTime(),
+          code: attemptError.code,
+          error: attemptError,
+        });
 
         // type check for undefined instead of for truthiness in case maxRetries or timeout is equal to zero
         if (
@@ -513,6 +652,8 @@ export class StreamProxy extends duplexify implements GRPCCallResult {
                   error,
                   totalTimeout,
                   retries,
+                  attemptRecords,
+                  ambientDeadline,
                 );
               } catch (error: unknown) {
                 const e = GoogleError.parseGRPCStatusDetails(
@@ -526,19 +667,82 @@ export class StreamProxy extends duplexify implements GRPCCallResult {
                 return retryStream;
               }
 
+              if (retryBudget && !retryBudget.tryAcquire()) {
+                const e = GoogleError.parseGRPCStatusDetails(error);
+                const newError = new GoogleError(
+                  `Retry budget exhausted, not retrying error ${e}.`,
+                );
+                newError.code = e.code;
+                newError.metadata = e.metadata;
+                newError.note =
+                  'Retries are disabled until enough calls succeed';
+                requestStream.destroy();
+                retryStream.destroy(
+                  GoogleError.withAttempts(newError, attemptRecords),
+                );
+
+                return retryStream;
+              }
+
               const delayMult = retry.backoffSettings.retryDelayMultiplier;
               const maxDelay = retry.backoffSettings.maxRetryDelayMillis;
               const timeoutMult = retry.backoffSettings.rpcTimeoutMultiplier;
               const maxTimeout = retry.backoffSettings.maxRpcTimeoutMillis;
-              let delay = retry.backoffSettings.initialRetryDelayMillis;
               // calculate new deadlines
-              const toSleep = Math.random() * delay;
+              let toSleep = computeRetryDelay(
+                retry.backoffSettings,
+                delay,
+                previousSleep,
+              );
+              // If the server sent google.rpc.RetryInfo, wait as long as it asks,
+              // but no longer than the backoff settings allow.
+              const serverDelay =
+                GoogleError.parseGRPCStatusDetails(error).retryDelayMillis;
+              if (serverDelay !== undefined) {
+                const remaining = deadline
+                  ? Math.max(deadline - new Date().getTime(), 0)
+                  : Infinity;
+                toSleep = Math.min(serverDelay, maxDelay, remaining);
+              }
+              if (ambientDeadline !== undefined) {
+                toSleep = Math.min(
+                  toSleep,
+                  Math.max(ambientDeadline - new Date().getTime(), 0),
+                );
+              }
+              previousSleep = toSleep;
+              const method = opts.method ?? 'unknown';
+              const status = statusName(attemptError?.code);
+              logCallEvent(
+                'INFO',
+                {method, attempt: attempts, status, delayMillis: toSleep},
+                'attempt %d of stream %s failed with %s, retrying in %dms',
+                attempts,
+                method,
+                status,
+                toSleep,
+              );
+              reportAttemptFailure(toSleep);
               const calculateTimeoutAndResumptionFunction = () => {
                 setTimeout(() => {
+                  if (this._isCancelCalled) {
+                    // the call was cancelled or aborted while waiting
+                    retryStream.destroy();
+                    return;
+                  }
+                  if (
+                    ambientDeadline !== undefined &&
+                    new Date().getTime() >= ambientDeadline
+                  ) {
+                    retryStream.destroy(
+                      ambientDeadlineExceededError(error, attemptRecords),
+                    );
+                    return;
+                  }
+                  delay = Math.min(delay * delayMult, maxDelay);
                   // only do timeout calculations if not using maxRetries
                   if (timeout) {
                     now = new Date();
-                    delay = Math.min(delay * delayMult, maxDelay);
                     const timeoutCal =
                       timeout && timeoutMult ? timeout * timeoutMult : 0;
                     const rpcTimeout = maxTimeout ? maxTimeout : 0;
@@ -24,6 +24,7 @@ import {
   ServerStreamingCall,
   SimpleCallbackFunction,
 } from '../apitypes';
+import {methodLabel} from '../logging';
 import {warn} from '../warnings';
 
 import {StreamDescriptor} from './streamDescriptor';
@@ -86,11 +87,20 @@ export class StreamingApiCaller implements APICaller {
     settings: CallSettings,
     stream: StreamProxy,
   ) {
+    if (settings.signal) {
+      stream.setAbortSignal(settings.signal);
+      if (settings.signal.aborted) {
+        return;
+      }
+    }
     stream.setStream(
       apiCall,
       argument,
       settings.retryRequestOptions,
       settings.retry!,
+      settings.retryBudget,
+      settings.hooks,
+      methodLabel(settings.apiName, settings.methodName),
     );
   }
 
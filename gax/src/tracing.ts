@@ -0,0 +1,307 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {CancellableStream, GRPCCallOtherArgs, ResponseType} from './apitypes';
+import {OngoingCall, watchCallOutcome} from './call';
+import {Descriptor} from './descriptor';
+import {CallSettings} from './gax';
+import {GoogleError} from './googleError';
+import {LongRunningDescriptor} from './longRunningCalls/longRunningDescriptor';
+import {PageDescriptor} from './paginationCalls/pageDescriptor';
+import {Status} from './status';
+
+// The values of SpanKind.CLIENT and SpanStatusCode.ERROR, which are part of
+// the stable OpenTelemetry API.
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+const TRACER_NAME = 'google-gax';
+
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * The span of a call or of an attempt, from `@opentelemetry/api`.
+ */
+export interface Span {
+  setAttribute(key: string, value: SpanAttributeValue): this;
+  setStatus(status: {code: number; message?: string}): this;
+  recordException(exception: Error): void;
+  end(): void;
+}
+
+export interface Tracer {
+  startSpan(
+    name: string,
+    options?: {kind?: number; attributes?: {[key: string]: SpanAttributeValue}},
+    context?: unknown,
+  ): Span;
+}
+
+/**
+ * The parts of the `@opentelemetry/api` module used by gax.
+ */
+export interface OpenTelemetryApi {
+  trace: {
+    getTracer(name: string, version?: string): Tracer;
+    setSpan(context: unknown, span: Span): unknown;
+  };
+  context: {
+    active(): unknown;
+  };
+  propagation: {
+    inject(context: unknown, carrier: {[key: string]: string}): void;
+  };
+}
+
+/**
+ * Configures the OpenTelemetry tracing of the calls.
+ * @typedef {Object} TracingOptions
+ * @property {Object=} api - the `@opentelemetry/api` module. By default, it
+ *   is loaded with `require`, and tracing does nothing when it is not
+ *   installed.
+ */
+export interface TracingOptions {
+  api?: OpenTelemetryApi;
+}
+
+let openTelemetryApi: unknown;
+
+/**
+ * Loads the `@opentelemetry/api` module, or returns null when it is not
+ * installed.
+ *
+ * @private
+ */
+export function loadOpenTelemetryApi<T>(): T | null {
+  if (openTelemetryApi === undefined) {
+    try {
+      // An optional dependency, used by the tracing and the metrics.
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      openTelemetryApi = require('@opentelemetry/api');
+    } catch (err) {
+      openTelemetryApi = null;
+    }
+  }
+  return openTelemetryApi as T | null;
+}
+
+/**
+ * A call being traced, see {@link CallTracer#startCall}.
+ * @private
+ */
+export interface TracedCall {
+  // the settings of the call, starting a span for each of its attempts
+  settings: CallSettings;
+  // ends the span of the call when the ongoing call finishes
+  watch(call: OngoingCall | CancellableStream): void;
+}
+
+/**
+ * Traces calls with OpenTelemetry: each call gets a span, with a child span
+ * for each of its attempts. The span of a long-running call ends with the
+ * call starting the operation: the polls are the children of an operation
+ * span, a sibling of the span of the call, which ends with the operation.
+ * The trace context of the attempt is sent in its metadata.
+ *
+ * The spans have the `rpc.system`, `rpc.service` and `rpc.method`
+ * attributes. The span of a call also has `rpc.grpc.status_code` and
+ * `gax.retry_count`, the spans of the attempts have `gax.attempt`, and
+ * `gax.page_number` for the pages of paged calls. The spans of long-running
+ * operations have `gax.operation_name` once it is known.
+ */
+export class CallTracer {
+  readonly rpcSystem: string;
+  private readonly api: OpenTelemetryApi | null;
+  private readonly tracer?: Tracer;
+
+  /**
+   * @param {TracingOptions=} options - the tracing options.
+   * @param {string=} rpcSystem - the `rpc.system` of the spans, e.g. `grpc`.
+   * @constructor
+   */
+  constructor(options: TracingOptions = {}, rpcSystem = 'grpc') {
+    this.rpcSystem = rpcSystem;
+    this.api = options.api ?? loadOpenTelemetryApi<OpenTelemetryApi>();
+    this.tracer = this.api?.trace.getTracer(TRACER_NAME);
+  }
+
+  /**
+   * Whether the calls are traced, i.e. whether `@opentelemetry/api` is
+   * available.
+   */
+  get enabled(): boolean {
+    return !!this.tracer;
+  }
+
+  /**
+   * Starts the span of a call.
+   *
+   * @private
+   *
+   * @param {CallSettings} settings - the settings of the call. They are not
+   *   modified.
+   * @param {Descriptor=} descriptor - the descriptor of the method.
+   * @return {TracedCall|undefined} the traced call, or undefined if the
+   *   calls are not traced.
+   */
+  startCall(
+    settings: CallSettings,
+    descriptor?: Descriptor,
+  ): TracedCall | undefined {
+    const api = this.api;
+    const tracer = this.tracer;
+    if (!api || !tracer) {
+      return undefined;
+    }
+    const service = settings.apiName ?? 'unknown';
+    const method = settings.methodName ?? 'unknown';
+    const name = `${service}/${method}`;
+    const attributes = {
+      'rpc.system': this.rpcSystem,
+      'rpc.service': service,
+      'rpc.method': method,
+    };
+    const paged = descriptor instanceof PageDescriptor;
+    const longrunning = descriptor instanceof LongRunningDescriptor;
+
+    const parentContext = api.context.active();
+    const callSpan = tracer.startSpan(
+      name,
+      {kind: SPAN_KIND_CLIENT, attributes},
+      parentContext,
+    );
+    const callContext = api.trace.setSpan(parentContext, callSpan);
+    let operationSpan: Span | undefined;
+    let operationContext = callContext;
+    const attemptSpans = new Map<number, Span>();
+    let attemptContext = callContext;
+    let series = 0;
+    let retries = 0;
+    let operationName: string | undefined;
+    let callEnded = false;
+
+    const endAttempt = (attempt: number, error: GoogleError | null) => {
+      const span = attemptSpans.get(attempt);
+      if (span) {
+        attemptSpans.delete(attempt);
+        endSpan(span, error);
+      }
+    };
+    const endCall = (error: GoogleError | null, response?: ResponseType) => {
+      if (callEnded) {
+        return;
+      }
+      callEnded = true;
+      if (longrunning && response && typeof response === 'object') {
+        operationName = (response as {name?: string}).name || undefined;
+        if (operationName) {
+          callSpan.setAttribute('gax.operation_name', operationName);
+        }
+      }
+      callSpan.setAttribute('gax.retry_count', retries);
+      endSpan(callSpan, error);
+    };
+
+    const traced = new CallSettings(settings);
+    const hooks = settings.hooks;
+    traced.hooks = {
+      onAttemptStart: event => {
+        const polling = longrunning && series > 0;
+        if (polling && !operationSpan) {
+          operationSpan = tracer.startSpan(
+            `${name} operation`,
+            {kind: SPAN_KIND_CLIENT, attributes},
+            parentContext,
+          );
+          if (operationName) {
+            operationSpan.setAttribute('gax.operation_name', operationName);
+          }
+          operationContext = api.trace.setSpan(parentContext, operationSpan);
+        }
+        const parent = polling ? operationContext : callContext;
+        const attemptSpan = tracer.startSpan(
+          `${name} ${polling ? 'poll' : 'attempt'}`,
+          {
+            kind: SPAN_KIND_CLIENT,
+            attributes: {...attributes, 'gax.attempt': event.attempt},
+          },
+          parent,
+        );
+        if (paged) {
+          attemptSpan.setAttribute('gax.page_number', series + 1);
+        }
+        if (polling && operationName) {
+          attemptSpan.setAttribute('gax.operation_name', operationName);
+        }
+        attemptSpans.set(event.attempt, attemptSpan);
+        attemptContext = api.trace.setSpan(parent, attemptSpan);
+        hooks?.onAttemptStart?.(event);
+      },
+      onAttemptFailure: event => {
+        endAttempt(event.attempt, event.error);
+        hooks?.onAttemptFailure?.(event);
+      },
+      onCallFinish: event => {
+        for (const attempt of Array.from(attemptSpans.keys())) {
+          endAttempt(attempt, event.error);
+        }
+        attemptContext = callContext;
+        if (longrunning && series > 0) {
+          if (operationSpan) {
+            endSpan(operationSpan, event.error);
+            operationSpan = undefined;
+          }
+        } else {
+          retries += Math.max(event.attempts - 1, 0);
+        }
+        ++series;
+        hooks?.onCallFinish?.(event);
+      },
+    };
+    const otherArgs = settings.otherArgs as GRPCCallOtherArgs;
+    const metadataBuilder = otherArgs.metadataBuilder;
+    if (metadataBuilder) {
+      traced.otherArgs = {
+        ...otherArgs,
+        // The metadata is built for each attempt, once it has started.
+        metadataBuilder: (abTests?: {}, headers?: {}) => {
+          const carrier: {[key: string]: string} = {};
+          api.propagation.inject(attemptContext, carrier);
+          return metadataBuilder(abTests, {...headers, ...carrier});
+        },
+      };
+    }
+
+    return {
+      settings: traced,
+      watch(call: OngoingCall | CancellableStream) {
+        watchCallOutcome(call, endCall);
+      },
+    };
+  }
+}
+
+function endSpan(span: Span, error: GoogleError | null) {
+  span.setAttribute(
+    'rpc.grpc.status_code',
+    error ? (error.code ?? Status.UNKNOWN) : Status.OK,
+  );
+  if (error) {
+    span.recordException(error);
+    span.setStatus({code: SPAN_STATUS_ERROR, message: error.message});
+  }
+  span.end();
+}
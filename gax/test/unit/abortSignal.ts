@@ -0,0 +1,135 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from 'assert';
+import * as sinon from 'sinon';
+import {afterEach, describe, it} from 'mocha';
+
+import {APICallback} from '../../src/apitypes';
+import * as gax from '../../src/gax';
+import {GoogleError} from '../../src/googleError';
+import {PageDescriptor} from '../../src/paginationCalls/pageDescriptor';
+import {Status} from '../../src/status';
+import * as utils from './utils';
+
+function isCancelled(reason: unknown) {
+  return (err: GoogleError) => {
+    assert.strictEqual(err.code, Status.CANCELLED);
+    assert.strictEqual(err.cause, reason);
+    return true;
+  };
+}
+
+describe('createApiCall with an abort signal', () => {
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('cancels the call when the signal is aborted', async () => {
+    const cancel = sinon.spy();
+    const apiCall = utils.createApiCall(() => {}, {cancel});
+    const controller = new AbortController();
+    const promise = apiCall({}, {signal: controller.signal});
+    await new Promise(resolve => setImmediate(resolve));
+    const reason = new Error('user left');
+    controller.abort(reason);
+    await assert.rejects(promise, isCancelled(reason));
+    assert.strictEqual(cancel.callCount, 1);
+  });
+
+  it('does not send the call when the signal is already aborted', async () => {
+    const spy = sinon.spy();
+    const apiCall = utils.createApiCall(spy);
+    const reason = new Error('too late');
+    await assert.rejects(
+      apiCall({}, {signal: AbortSignal.abort(reason)}),
+      (err: GoogleError) => {
+        assert.strictEqual(err.message, 'The call was aborted: too late');
+        return isCancelled(reason)(err);
+      },
+    );
+    assert.strictEqual(spy.callCount, 0);
+  });
+
+  it('is not affected by the signal once the call is done', async () => {
+    const apiCall = utils.createApiCall(
+      (argument: {}, metadata: {}, options: {}, callback: APICallback) => {
+        callback(null, 42);
+      },
+    );
+    const controller = new AbortController();
+    const [response] = await apiCall({}, {signal: controller.signal});
+    controller.abort();
+    assert.strictEqual(response, 42);
+  });
+
+  it('stops waiting to retry when the signal is aborted', async () => {
+    const clock = sinon.useFakeTimers({
+      toFake: ['setTimeout', 'clearTimeout'],
+    });
+    const spy = sinon.spy(utils.fail);
+    const retry = utils.createRetryOptions(1000, 1, 1000, 100, 1, 100);
+    retry.backoffSettings.jitter = 'none';
+    const apiCall = utils.createApiCall(spy, {settings: {retry}});
+    const controller = new AbortController();
+    const promise = apiCall({}, {signal: controller.signal});
+    await clock.tickAsync(500);
+    assert.strictEqual(spy.callCount, 1);
+    controller.abort('stop');
+    await assert.rejects(promise, isCancelled('stop'));
+    await clock.tickAsync(5000);
+    assert.strictEqual(spy.callCount, 1);
+  });
+
+  it('stops the paged iteration when the signal is aborted', async () => {
+    const descriptor = new PageDescriptor('pageToken', 'nextPageToken', 'nums');
+    const spy = sinon.spy(
+      (
+        request: {pageToken?: number},
+        metadata: {},
+        options: {},
+        callback: APICallback,
+      ) => {
+        const pageToken = request.pageToken || 0;
+        callback(null, {
+          nums: [pageToken, pageToken + 1],
+          nextPageToken: pageToken + 2,
+        });
+      },
+    );
+    const apiCall = utils.createApiCall(spy, {descriptor});
+    const controller = new AbortController();
+    const settings = new gax.CallSettings({
+      autoPaginate: false,
+      signal: controller.signal,
+    });
+    const resources: number[] = [];
+    await assert.rejects(async () => {
+      for await (const resource of descriptor.asyncIterate(
+        apiCall,
+        {},
+        settings,
+      )) {
+        resources.push(resource as number);
+        if (resources.length === 3) {
+          controller.abort('enough');
+        }
+      }
+    }, isCancelled('enough'));
+    assert.deepStrictEqual(resources, [0, 1, 2, 3]);
+    assert.strictEqual(spy.callCount, 2);
+  });
+});
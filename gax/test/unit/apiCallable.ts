@@ -16,10 +16,10 @@
 
 import assert from 'assert';
 import {status} from '@grpc/grpc-js';
-import {afterEach, describe, it} from 'mocha';
+import {afterEach, beforeEach, describe, it} from 'mocha';
 import * as sinon from 'sinon';
 
-import {RequestType} from '../../src/apitypes';
+import {APICallback, RequestType} from '../../src/apitypes';
 import * as gax from '../../src/gax';
 import {GoogleError} from '../../src/googleError';
 import * as utils from './utils';
@@ -656,6 +656,78 @@ describe('retryable', () => {
     });
   });
 
+  it('attaches the failed attempts to the error of exhausted retries', done => {
+    const backoff = gax.createMaxRetriesBackoffSettings(0, 0, 0, 0, 0, 0, 3);
+    const maxRetrySettings = {
+      settings: {timeout: 0, retry: utils.createRetryOptions(backoff)},
+    };
+    const spy = sinon.spy(fail);
+    const apiCall = createApiCall(spy, maxRetrySettings);
+    void apiCall({}, undefined, err => {
+      try {
+        assert.ok(err instanceof GoogleError);
+        const attempts = err.attempts!;
+        assert.deepStrictEqual(
+          attempts.map(attempt => attempt.attempt),
+          [1, 2, 3],
+        );
+        for (const attempt of attempts) {
+          assert.strictEqual(attempt.code, FAKE_STATUS_CODE_1);
+          assert.strictEqual(attempt.error.code, FAKE_STATUS_CODE_1);
+          assert.ok(attempt.startTime instanceof Date);
+          assert.ok(attempt.durationMillis >= 0);
+        }
+        assert.ok(err.cause instanceof AggregateError);
+        assert.deepStrictEqual(
+          err.cause.errors,
+          attempts.map(attempt => attempt.error),
+        );
+        done();
+      } catch (err) {
+        done(err);
+      }
+    });
+  });
+
+  it('attaches the transient failures to a non-retryable error', done => {
+    const backoff = gax.createMaxRetriesBackoffSettings(0, 0, 0, 0, 0, 0, 5);
+    const maxRetrySettings = {
+      settings: {timeout: 0, retry: utils.createRetryOptions(backoff)},
+    };
+    const spy = sinon.spy(
+      (argument: {}, metadata: {}, options: {}, callback: APICallback) => {
+        if (spy.callCount < 3) {
+          fail(argument, metadata, options, callback);
+          return;
+        }
+        const error = new GoogleError('not found');
+        error.code = status.NOT_FOUND;
+        callback(error);
+      },
+    );
+    const apiCall = createApiCall(spy, maxRetrySettings);
+    void apiCall({}, undefined, err => {
+      try {
+        assert.ok(err instanceof GoogleError);
+        assert.strictEqual(err.code, status.NOT_FOUND);
+        assert.match(err.note!, /not classified as transient/);
+        assert.deepStrictEqual(
+          err.attempts!.map(attempt => [attempt.attempt, attempt.code]),
+          [
+            [1, FAKE_STATUS_CODE_1],
+            [2, FAKE_STATUS_CODE_1],
+          ],
+        );
+        assert.ok(err.cause instanceof AggregateError);
+        assert.ok(!err.cause.errors.includes(err));
+        assert.doesNotThrow(() => JSON.stringify(err));
+        done();
+      } catch (err) {
+        done(err);
+      }
+    });
+  });
+
   // maxRetries is unsupported, and intended for internal use only or
   // use with retry-request backwards compatibility
   it('errors when totalTimeoutMillis and maxRetries set', done => {
@@ -709,6 +781,170 @@ describe('retryable', () => {
     });
   });
 
+  it('sleeps according to the jitter strategy', async () => {
+    const jitter = sinon.spy(() => 0);
+    let toAttempt = 3;
+    const apiCall = createApiCall(
+      (argument: {}, metadata: {}, options: {}, callback: Function) => {
+        if (--toAttempt > 0) {
+          fail(argument, metadata, options, callback);
+          return;
+        }
+        callback(null, 1729);
+      },
+      settings,
+    );
+    const backoff = gax.createBackoffSettings(
+      10,
+      2,
+      100,
+      0,
+      0,
+      0,
+      1000,
+      jitter,
+    );
+    const [response] = await apiCall(
+      {},
+      {retry: utils.createRetryOptions(backoff)},
+    );
+    assert.strictEqual(response, 1729);
+    assert.deepStrictEqual(jitter.args, [
+      [10, 10],
+      [20, 0],
+    ]);
+  });
+
+  it('calls the hooks of the call for each attempt', async () => {
+    let toAttempt = 3;
+    const apiCall = createApiCall(
+      (argument: {}, metadata: {}, options: {}, callback: Function) => {
+        if (--toAttempt > 0) {
+          fail(argument, metadata, options, callback);
+          return;
+        }
+        callback(null, 1729);
+      },
+      settings,
+    );
+    const backoff = gax.createBackoffSettings(
+      10,
+      2,
+      100,
+      0,
+      0,
+      0,
+      1000,
+      'none',
+    );
+    const events: Array<{}> = [];
+    await apiCall(
+      {},
+      {
+        retry: utils.createRetryOptions(backoff),
+        hooks: {
+          onAttemptStart: event => events.push(['start', event.attempt]),
+          onAttemptFailure: event =>
+            events.push([
+              'failure',
+              event.attempt,
+              event.error.code,
+              event.delayMillis,
+            ]),
+          onCallFinish: event =>
+            events.push(['finish', event.attempts, event.error]),
+        },
+      },
+    );
+    assert.deepStrictEqual(events, [
+      ['start', 1],
+      ['failure', 1, FAKE_STATUS_CODE_1, 10],
+      ['start', 2],
+      ['failure', 2, FAKE_STATUS_CODE_1, 20],
+      ['start', 3],
+      ['finish', 3, null],
+    ]);
+  });
+
+  it('calls the hooks of a call without retries', async () => {
+    const apiCall = createApiCall(fail, settings);
+    const events: Array<{}> = [];
+    await assert.rejects(
+      apiCall(
+        {},
+        {
+          retry: null,
+          hooks: {
+            onAttemptStart: event => events.push(['start', event.attempt]),
+            onAttemptFailure: event =>
+              events.push(['failure', event.attempt, event.delayMillis]),
+            onCallFinish: event =>
+              events.push(['finish', event.attempts, event.error!.code]),
+          },
+        },
+      ),
+    );
+    assert.deepStrictEqual(events, [
+      ['start', 1],
+      ['failure', 1, undefined],
+      ['finish', 1, FAKE_STATUS_CODE_1],
+    ]);
+  });
+
+  describe('with google.rpc.RetryInfo', () => {
+    let clock: sinon.SinonFakeTimers;
+    beforeEach(() => {
+      clock = sinon.useFakeTimers({toFake: ['setTimeout']});
+    });
+    afterEach(() => {
+      clock.restore();
+    });
+
+    function failOnceWithRetryDelay(retryDelayMillis: number) {
+      let attempts = 0;
+      return sinon.spy(
+        (argument: {}, metadata: {}, options: {}, callback: Function) => {
+          if (++attempts > 1) {
+            callback(null, 1729);
+            return;
+          }
+          const error = new GoogleError('Try again later');
+          error.code = FAKE_STATUS_CODE_1;
+          error.retryDelayMillis = retryDelayMillis;
+          callback(error);
+        },
+      );
+    }
+
+    it('waits for the delay requested by the server', async () => {
+      const spy = failOnceWithRetryDelay(500);
+      const apiCall = createApiCall(spy, settings);
+      const promise = apiCall(
+        {},
+        {retry: utils.createRetryOptions(0, 1, 1000, 0, 0, 0, 10000)},
+      );
+      await clock.tickAsync(499);
+      assert.strictEqual(spy.callCount, 1);
+      await clock.tickAsync(1);
+      const [response] = await promise;
+      assert.strictEqual(spy.callCount, 2);
+      assert.strictEqual(response, 1729);
+    });
+
+    it('caps the delay by maxRetryDelayMillis', async () => {
+      const spy = failOnceWithRetryDelay(60000);
+      const apiCall = createApiCall(spy, settings);
+      const promise = apiCall(
+        {},
+        {retry: utils.createRetryOptions(0, 1, 100, 0, 0, 0, 10000)},
+      );
+      await clock.tickAsync(100);
+      const [response] = await promise;
+      assert.strictEqual(spy.callCount, 2);
+      assert.strictEqual(response, 1729);
+    });
+  });
+
   it('does not retry even when no responses', done => {
     function func(argument: {}, metadata: {}, options: {}, callback: Function) {
       callback(null, null);
@@ -982,6 +982,32 @@ describe('bundleable', () => {
     p.cancel();
   });
 
+  it('aborts only the element of the aborted call', async () => {
+    const spy = sinon.spy(func);
+    const apiCall = createApiCall(spy, settings);
+    const controller = new AbortController();
+    const kept = apiCall({field1: [1, 2, 3], field2: 'id'}, undefined);
+    const aborted = apiCall(
+      {field1: [4, 5], field2: 'id'},
+      {signal: controller.signal},
+    );
+    await new Promise(resolve => setImmediate(resolve));
+    controller.abort(new Error('no longer needed'));
+    await assert.rejects(aborted, (err: GoogleError) => {
+      assert.strictEqual(err.code, status.CANCELLED);
+      assert.match(err.message, /no longer needed/);
+      return true;
+    });
+    const [response] = await kept;
+    // @ts-ignore response type
+    assert.deepStrictEqual(response.field1, [1, 2, 3]);
+    assert.strictEqual(spy.callCount, 1);
+    assert.deepStrictEqual(
+      (spy.firstCall.args[0] as {field1: number[]}).field1,
+      [1, 2, 3],
+    );
+  });
+
   it('properly processes camel case fields', done => {
     const descriptor = new BundleDescriptor(
       'data',
@@ -0,0 +1,228 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from 'assert';
+import * as sinon from 'sinon';
+import {afterEach, beforeEach, describe, it} from 'mocha';
+
+import {
+  CircuitBreaker,
+  CircuitBreakerRegistry,
+  CircuitStateChange,
+} from '../../src/circuitBreaker';
+import {GoogleError} from '../../src/googleError';
+import {GrpcClient} from '../../src/grpc';
+import {GrpcClient as FallbackGrpcClient} from '../../src/fallback';
+import {Status} from '../../src/status';
+import * as utils from './utils';
+
+function errorWithCode(code: Status) {
+  const error = new GoogleError(Status[code]);
+  error.code = code;
+  return error;
+}
+
+describe('CircuitBreaker', () => {
+  let clock: sinon.SinonFakeTimers;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers({toFake: ['Date']});
+  });
+
+  afterEach(() => {
+    clock.restore();
+  });
+
+  it('opens after consecutive failures', () => {
+    const breaker = new CircuitBreaker('Api', 'method', {failureThreshold: 2});
+    const changes: CircuitStateChange[] = [];
+    breaker.on('stateChange', change => changes.push(change));
+
+    assert.strictEqual(breaker.tryAcquire(), true);
+    breaker.record(errorWithCode(Status.UNAVAILABLE));
+    assert.strictEqual(breaker.state, 'closed');
+    assert.strictEqual(breaker.tryAcquire(), true);
+    breaker.record(errorWithCode(Status.UNAVAILABLE));
+    assert.strictEqual(breaker.state, 'open');
+    assert.strictEqual(breaker.tryAcquire(), false);
+    assert.deepStrictEqual(changes, [
+      {
+        apiName: 'Api',
+        methodName: 'method',
+        state: 'open',
+        previousState: 'closed',
+      },
+    ]);
+  });
+
+  it('only counts the configured codes as failures', () => {
+    const breaker = new CircuitBreaker('Api', 'method', {failureThreshold: 2});
+    breaker.record(errorWithCode(Status.UNAVAILABLE));
+    breaker.record(errorWithCode(Status.NOT_FOUND));
+    breaker.record(errorWithCode(Status.UNAVAILABLE));
+    breaker.record(errorWithCode(Status.CANCELLED));
+    assert.strictEqual(breaker.state, 'closed');
+    breaker.record(errorWithCode(Status.DEADLINE_EXCEEDED));
+    assert.strictEqual(breaker.state, 'open');
+  });
+
+  it('lets probe calls through after the cooldown', () => {
+    const breaker = new CircuitBreaker('Api', 'method', {
+      failureThreshold: 1,
+      cooldownMillis: 1000,
+    });
+    breaker.record(errorWithCode(Status.UNAVAILABLE));
+    clock.tick(999);
+    assert.strictEqual(breaker.tryAcquire(), false);
+    clock.tick(1);
+    assert.strictEqual(breaker.state, 'half-open');
+    assert.strictEqual(breaker.tryAcquire(), true);
+    // only one probe at a time
+    assert.strictEqual(breaker.tryAcquire(), false);
+
+    // a failed probe opens the circuit again
+    breaker.record(errorWithCode(Status.UNAVAILABLE));
+    assert.strictEqual(breaker.state, 'open');
+    clock.tick(1000);
+    assert.strictEqual(breaker.tryAcquire(), true);
+    breaker.record(null);
+    assert.strictEqual(breaker.state, 'closed');
+  });
+
+  it('does not take calls sent while closed for probes', () => {
+    const breaker = new CircuitBreaker('Api', 'method', {
+      failureThreshold: 1,
+      cooldownMillis: 1000,
+    });
+    const slowCall = breaker.acquire();
+    assert.strictEqual(slowCall, 'call');
+    breaker.record(errorWithCode(Status.UNAVAILABLE), breaker.acquire()!);
+    clock.tick(1000);
+    assert.strictEqual(breaker.state, 'half-open');
+    const probe = breaker.acquire();
+    assert.strictEqual(probe, 'probe');
+
+    // the slow call neither frees the probe slot nor decides the state
+    breaker.record(errorWithCode(Status.UNAVAILABLE), slowCall!);
+    assert.strictEqual(breaker.state, 'half-open');
+    assert.strictEqual(breaker.acquire(), null);
+    breaker.record(null, probe!);
+    assert.strictEqual(breaker.state, 'closed');
+  });
+
+  it('validates its options', () => {
+    assert.throws(
+      () => new CircuitBreaker('Api', 'method', {failureThreshold: 0}),
+      /failureThreshold/,
+    );
+    assert.throws(
+      () => new CircuitBreaker('Api', 'method', {cooldownMillis: -1}),
+      /cooldownMillis/,
+    );
+    assert.throws(
+      () => new CircuitBreaker('Api', 'method', {halfOpenMaxCalls: 0}),
+      /halfOpenMaxCalls/,
+    );
+  });
+});
+
+describe('createApiCall with a circuit breaker', () => {
+  it('fails without sending the call while the circuit is open', async () => {
+    const circuitBreaker = new CircuitBreaker('Api', 'method', {
+      failureThreshold: 1,
+    });
+    const spy = sinon.spy(
+      (argument: {}, metadata: {}, options: {}, callback: Function) => {
+        callback(errorWithCode(Status.UNAVAILABLE));
+      },
+    );
+    const apiCall = utils.createApiCall(spy, {settings: {circuitBreaker}});
+
+    await assert.rejects(apiCall({}), /UNAVAILABLE/);
+    assert.strictEqual(circuitBreaker.state, 'open');
+    await assert.rejects(apiCall({}), (err: GoogleError) => {
+      assert.strictEqual(err.code, Status.UNAVAILABLE);
+      assert.match(err.message, /Circuit breaker of Api.method is open/);
+      return true;
+    });
+    assert.strictEqual(spy.callCount, 1);
+
+    // the breaker can be disabled per call
+    await assert.rejects(apiCall({}, {circuitBreaker: null}), /UNAVAILABLE/);
+    assert.strictEqual(spy.callCount, 2);
+  });
+});
+
+describe('CircuitBreakerRegistry', () => {
+  const clientConfig = {
+    interfaces: {
+      SampleApi: {
+        methods: {PageStreamingMethod: {}, BundlingMethod: {}},
+      },
+    },
+  };
+
+  it('keeps one breaker per method and forwards their events', () => {
+    const registry = new CircuitBreakerRegistry({failureThreshold: 1});
+    const changes: CircuitStateChange[] = [];
+    registry.on('stateChange', change => changes.push(change));
+    const breaker = registry.get('Api', 'method');
+    assert.strictEqual(registry.get('Api', 'method'), breaker);
+    assert.notStrictEqual(registry.get('Api', 'other'), breaker);
+
+    breaker.record(errorWithCode(Status.UNAVAILABLE));
+    assert.deepStrictEqual(registry.states(), {
+      'Api.method': 'open',
+      'Api.other': 'closed',
+    });
+    assert.strictEqual(changes.length, 1);
+    assert.strictEqual(changes[0].methodName, 'method');
+  });
+
+  const clients = {grpc: GrpcClient, fallback: FallbackGrpcClient};
+  for (const [transport, Client] of Object.entries(clients)) {
+    it(`is set on all the methods by the ${transport} GrpcClient`, () => {
+      const grpcClient = new Client({circuitBreaker: {failureThreshold: 3}});
+      const settings = grpcClient.constructSettings(
+        'SampleApi',
+        clientConfig,
+        {},
+        {},
+      );
+      const registry = grpcClient.circuitBreakers!;
+      assert.strictEqual(
+        settings.pageStreamingMethod.circuitBreaker,
+        registry.get('SampleApi', 'pageStreamingMethod'),
+      );
+      assert.strictEqual(
+        settings.bundlingMethod.circuitBreaker!.failureThreshold,
+        3,
+      );
+    });
+  }
+
+  it('is not created by default', () => {
+    const grpcClient = new GrpcClient();
+    const settings = grpcClient.constructSettings(
+      'SampleApi',
+      clientConfig,
+      {},
+      {},
+    );
+    assert.strictEqual(grpcClient.circuitBreakers, undefined);
+    assert.strictEqual(settings.bundlingMethod.circuitBreaker, undefined);
+  });
+});
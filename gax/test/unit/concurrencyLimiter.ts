@@ -0,0 +1,272 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from 'assert';
+import * as sinon from 'sinon';
+import {afterEach, beforeEach, describe, it} from 'mocha';
+
+import {APICallback} from '../../src/apitypes';
+import {
+  ConcurrencyLimiter,
+  ConcurrencyLimiterRegistry,
+} from '../../src/concurrencyLimiter';
+import {GoogleError} from '../../src/googleError';
+import {GrpcClient} from '../../src/grpc';
+import {GrpcClient as FallbackGrpcClient} from '../../src/fallback';
+import {Status} from '../../src/status';
+import * as utils from './utils';
+
+describe('ConcurrencyLimiter', () => {
+  let clock: sinon.SinonFakeTimers;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers({
+      toFake: ['Date', 'setTimeout', 'clearTimeout'],
+    });
+  });
+
+  afterEach(() => {
+    clock.restore();
+  });
+
+  it('queues the calls over the limit in order', () => {
+    const limiter = new ConcurrencyLimiter({maxConcurrentCalls: 2});
+    const releases: Array<() => void> = [];
+    const granted: number[] = [];
+    for (let i = 0; i < 4; ++i) {
+      limiter.acquire((err, release) => {
+        assert.strictEqual(err, null);
+        granted.push(i);
+        releases.push(release!);
+      });
+    }
+    assert.deepStrictEqual(granted, [0, 1]);
+    assert.strictEqual(limiter.inFlight, 2);
+    assert.strictEqual(limiter.queueLength, 2);
+    clock.tick(100);
+    releases[1]();
+    releases[1]();
+    assert.deepStrictEqual(granted, [0, 1, 2]);
+    clock.tick(100);
+    releases[0]();
+    assert.deepStrictEqual(granted, [0, 1, 2, 3]);
+    assert.deepStrictEqual(limiter.stats(), {
+      inFlight: 2,
+      queueLength: 0,
+      queuedCalls: 2,
+      totalWaitMillis: 300,
+      maxWaitMillis: 200,
+    });
+  });
+
+  it('fails the calls over the queue size', () => {
+    const limiter = new ConcurrencyLimiter({
+      maxConcurrentCalls: 1,
+      maxQueueSize: 1,
+    });
+    const errors: Array<GoogleError | null> = [];
+    for (let i = 0; i < 3; ++i) {
+      limiter.acquire(err => errors.push(err));
+    }
+    assert.strictEqual(errors.length, 2);
+    assert.strictEqual(errors[0], null);
+    assert.strictEqual(errors[1]!.code, Status.RESOURCE_EXHAUSTED);
+    assert.match(errors[1]!.message, /queue is full/);
+  });
+
+  it('fails the calls still waiting at their deadline', () => {
+    const limiter = new ConcurrencyLimiter({maxConcurrentCalls: 1});
+    const errors: Array<GoogleError | null> = [];
+    limiter.acquire(err => errors.push(err));
+    limiter.acquire(err => errors.push(err), Date.now() + 500);
+    clock.tick(500);
+    assert.strictEqual(errors.length, 2);
+    assert.strictEqual(errors[1]!.code, Status.DEADLINE_EXCEEDED);
+    assert.strictEqual(limiter.queueLength, 0);
+    assert.strictEqual(limiter.stats().maxWaitMillis, 500);
+  });
+
+  it('takes a slot in its parent', () => {
+    const parent = new ConcurrencyLimiter({maxConcurrentCalls: 1});
+    const limiter = new ConcurrencyLimiter({maxConcurrentCalls: 2}, parent);
+    let release: (() => void) | undefined;
+    parent.acquire((err, releaseSlot) => (release = releaseSlot));
+    const granted = sinon.spy();
+    limiter.acquire(granted);
+    const leaveQueue = limiter.acquire(granted);
+    assert.strictEqual(limiter.inFlight, 2);
+    assert.strictEqual(parent.queueLength, 2);
+    assert.strictEqual(leaveQueue(), true);
+    assert.strictEqual(limiter.inFlight, 1);
+    release!();
+    assert.strictEqual(granted.callCount, 1);
+    granted.firstCall.args[1]();
+    assert.strictEqual(limiter.inFlight, 0);
+    assert.strictEqual(parent.inFlight, 0);
+  });
+
+  it('validates its options', () => {
+    assert.throws(
+      () => new ConcurrencyLimiter({maxConcurrentCalls: 0}),
+      /maxConcurrentCalls/,
+    );
+    assert.throws(
+      () => new ConcurrencyLimiter({maxConcurrentCalls: 1, maxQueueSize: -1}),
+      /maxQueueSize/,
+    );
+  });
+});
+
+describe('ConcurrencyLimiterRegistry', () => {
+  it('creates limiters for the methods with their own limit', () => {
+    const registry = new ConcurrencyLimiterRegistry({
+      maxConcurrentCalls: 10,
+      methods: {getBook: 2},
+    });
+    const limiter = registry.get('LibraryService', 'getBook')!;
+    assert.strictEqual(limiter.maxConcurrentCalls, 2);
+    assert.strictEqual(limiter.parent, registry.clientLimiter);
+    assert.strictEqual(registry.get('LibraryService', 'getBook'), limiter);
+    assert.strictEqual(
+      registry.get('LibraryService', 'listBooks'),
+      registry.clientLimiter,
+    );
+    assert.deepStrictEqual(Object.keys(registry.stats()), [
+      '*',
+      'LibraryService.getBook',
+    ]);
+  });
+
+  it('has no limit for the other methods without a client limit', () => {
+    const registry = new ConcurrencyLimiterRegistry({methods: {getBook: 2}});
+    assert.strictEqual(registry.get('LibraryService', 'listBooks'), undefined);
+    assert.strictEqual(
+      registry.get('LibraryService', 'getBook')!.parent,
+      undefined,
+    );
+  });
+});
+
+describe('createApiCall with a concurrency limiter', () => {
+  it('waits for a slot before sending a call', async () => {
+    const callbacks: APICallback[] = [];
+    const spy = sinon.spy(
+      (argument: {}, metadata: {}, options: {}, callback: APICallback) => {
+        callbacks.push(callback);
+      },
+    );
+    const concurrencyLimiter = new ConcurrencyLimiter({maxConcurrentCalls: 1});
+    const apiCall = utils.createApiCall(spy, {settings: {concurrencyLimiter}});
+    const first = apiCall({});
+    const second = apiCall({});
+    await new Promise(resolve => setImmediate(resolve));
+    assert.strictEqual(spy.callCount, 1);
+    assert.strictEqual(concurrencyLimiter.queueLength, 1);
+    callbacks[0](null, 1);
+    assert.strictEqual(spy.callCount, 2);
+    callbacks[1](null, 2);
+    assert.deepStrictEqual((await first)[0], 1);
+    assert.deepStrictEqual((await second)[0], 2);
+    assert.strictEqual(concurrencyLimiter.inFlight, 0);
+  });
+
+  it('keeps the deadline of the call while waiting', async () => {
+    const clock = sinon.useFakeTimers({
+      toFake: ['Date', 'setTimeout', 'clearTimeout'],
+    });
+    try {
+      const deadlines: Date[] = [];
+      const callbacks: APICallback[] = [];
+      const spy = sinon.spy(
+        (
+          argument: {},
+          metadata: {},
+          options: {deadline: Date},
+          callback: APICallback,
+        ) => {
+          deadlines.push(options.deadline);
+          callbacks.push(callback);
+        },
+      );
+      const concurrencyLimiter = new ConcurrencyLimiter({
+        maxConcurrentCalls: 1,
+      });
+      const apiCall = utils.createApiCall(spy, {
+        settings: {concurrencyLimiter, timeout: 1000},
+      });
+      apiCall({}).catch(() => {});
+      await clock.tickAsync(0);
+      const second = apiCall({});
+      await clock.tickAsync(400);
+      callbacks[0](null, 1);
+      assert.strictEqual(deadlines[1].getTime(), 1000);
+
+      const third = apiCall({});
+      await clock.tickAsync(1000);
+      await assert.rejects(third, (err: GoogleError) => {
+        assert.strictEqual(err.code, Status.DEADLINE_EXCEEDED);
+        return true;
+      });
+      assert.strictEqual(concurrencyLimiter.queueLength, 0);
+      callbacks[1](null, 2);
+      assert.deepStrictEqual((await second)[0], 2);
+      assert.strictEqual(spy.callCount, 2);
+    } finally {
+      clock.restore();
+    }
+  });
+
+  it('leaves the queue when the call is cancelled', async () => {
+    const spy = sinon.spy();
+    const concurrencyLimiter = new ConcurrencyLimiter({maxConcurrentCalls: 1});
+    const apiCall = utils.createApiCall(spy, {settings: {concurrencyLimiter}});
+    apiCall({}).catch(() => {});
+    const promise = apiCall({});
+    await new Promise(resolve => setImmediate(resolve));
+    assert.strictEqual(concurrencyLimiter.queueLength, 1);
+    promise.cancel();
+    await assert.rejects(promise, (err: GoogleError) => {
+      assert.strictEqual(err.code, Status.CANCELLED);
+      return true;
+    });
+    assert.strictEqual(concurrencyLimiter.queueLength, 0);
+    assert.strictEqual(spy.callCount, 1);
+  });
+
+  const clients = {grpc: GrpcClient, fallback: FallbackGrpcClient};
+  for (const [transport, Client] of Object.entries(clients)) {
+    it(`is set on the methods by the ${transport} GrpcClient`, () => {
+      const grpcClient = new Client({
+        concurrencyLimit: {maxConcurrentCalls: 10, methods: {sampleMethod: 1}},
+      });
+      const settings = grpcClient.constructSettings(
+        'SampleApi',
+        {interfaces: {SampleApi: {methods: {SampleMethod: {}, Other: {}}}}},
+        {},
+        {},
+      );
+      const limiters = grpcClient.concurrencyLimiters!;
+      assert.strictEqual(
+        settings.sampleMethod.concurrencyLimiter,
+        limiters.get('SampleApi', 'sampleMethod'),
+      );
+      assert.strictEqual(
+        settings.other.concurrencyLimiter,
+        limiters.clientLimiter,
+      );
+    });
+  }
+});
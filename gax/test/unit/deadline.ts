@@ -0,0 +1,180 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from 'assert';
+import * as sinon from 'sinon';
+import {describe, it} from 'mocha';
+import {PassThrough} from 'stream';
+import {setTimeout as sleep} from 'timers/promises';
+
+import {GaxCallStream, GRPCCall} from '../../src/apitypes';
+import {createApiCall} from '../../src/createApiCall';
+import {getRemainingDeadlineMillis, withDeadline} from '../../src/deadline';
+import {
+  CallSettings,
+  createMaxRetriesBackoffSettings,
+  createRetryOptions,
+} from '../../src/gax';
+import {StreamDescriptor} from '../../src/streamingCalls/streamDescriptor';
+import {StreamType} from '../../src/streamingCalls/streaming';
+import {GoogleError} from '../../src/googleError';
+import {Status} from '../../src/status';
+import * as utils from './utils';
+
+describe('withDeadline', () => {
+  it('sets the remaining time within the function', async () => {
+    assert.strictEqual(getRemainingDeadlineMillis(), undefined);
+    await withDeadline(1000, async () => {
+      await sleep(10);
+      const remaining = getRemainingDeadlineMillis()!;
+      assert(remaining > 0 && remaining <= 990, `remaining: ${remaining}`);
+    });
+    assert.strictEqual(getRemainingDeadlineMillis(), undefined);
+  });
+
+  it('does not extend the outer deadline', () => {
+    withDeadline(100, () => {
+      withDeadline(10000, () => {
+        assert(getRemainingDeadlineMillis()! <= 100);
+      });
+      withDeadline(10, () => {
+        assert(getRemainingDeadlineMillis()! <= 10);
+      });
+    });
+  });
+
+  it('validates the timeout', () => {
+    assert.throws(() => withDeadline(-1, () => {}), /timeoutMillis/);
+  });
+});
+
+describe('createApiCall within withDeadline', () => {
+  it('clamps the timeout of the call', async () => {
+    let deadline: Date | undefined;
+    const apiCall = utils.createApiCall(
+      (
+        argument: {},
+        metadata: {},
+        options: {deadline: Date},
+        callback: Function,
+      ) => {
+        deadline = options.deadline;
+        callback(null, 42);
+      },
+      {settings: {timeout: 60000}},
+    );
+    const start = Date.now();
+    await withDeadline(1000, () => apiCall({}));
+    assert(deadline!.getTime() - start < 2000);
+    await apiCall({});
+    assert(deadline!.getTime() - start >= 60000);
+  });
+
+  it('clamps the total timeout of retries', async () => {
+    const retry = utils.createRetryOptions(1, 1, 1, 1000, 1, 1000, 60000);
+    const spy = sinon.spy(utils.fail);
+    const apiCall = utils.createApiCall(spy, {settings: {retry}});
+    await withDeadline(50, async () => {
+      await assert.rejects(apiCall({}), (err: GoogleError) => {
+        assert.strictEqual(err.code, Status.DEADLINE_EXCEEDED);
+        assert.match(err.message, /Total timeout/);
+        return true;
+      });
+    });
+    assert(spy.callCount > 1);
+    // the settings of the method are left untouched
+    assert.strictEqual(retry.backoffSettings.maxRpcTimeoutMillis, 1000);
+  });
+
+  it('stops retrying at the deadline with maxRetries', async () => {
+    const retry = utils.createRetryOptions(
+      createMaxRetriesBackoffSettings(10, 1, 10, 1000, 1, 1000, 1000),
+    );
+    const spy = sinon.spy(utils.fail);
+    const apiCall = utils.createApiCall(spy, {settings: {retry}});
+    const start = Date.now();
+    await withDeadline(100, async () => {
+      await assert.rejects(apiCall({}), (err: GoogleError) => {
+        assert.strictEqual(err.code, Status.DEADLINE_EXCEEDED);
+        assert.match(err.message, /Deadline exceeded while retrying/);
+        assert.strictEqual(err.attempts!.length, spy.callCount);
+        return true;
+      });
+    });
+    assert(Date.now() - start < 1000);
+    assert(spy.callCount > 1 && spy.callCount < 1000);
+  });
+
+  it('fails without sending the call once the deadline passed', async () => {
+    const spy = sinon.spy(
+      (argument: {}, metadata: {}, options: {}, callback: Function) => {
+        callback(null, 42);
+      },
+    );
+    const apiCall = utils.createApiCall(spy, {settings: {apiName: 'TestApi'}});
+    await withDeadline(0, async () => {
+      await assert.rejects(apiCall({}), (err: GoogleError) => {
+        assert.strictEqual(err.code, Status.DEADLINE_EXCEEDED);
+        assert.match(err.message, /before the call to API TestApi was sent/);
+        return true;
+      });
+    });
+    assert.strictEqual(spy.callCount, 0);
+  });
+});
+
+describe('streaming calls within withDeadline', () => {
+  it('stops retrying at the deadline with maxRetries', async () => {
+    const spy = sinon.spy(() => {
+      const stream = new PassThrough({objectMode: true});
+      setImmediate(() => {
+        stream.emit(
+          'error',
+          Object.assign(new GoogleError('UNAVAILABLE'), {
+            code: Status.UNAVAILABLE,
+          }),
+        );
+      });
+      return stream;
+    });
+    const apiCall = createApiCall(
+      Promise.resolve(spy as unknown as GRPCCall),
+      new CallSettings(),
+      new StreamDescriptor(StreamType.SERVER_STREAMING, false, true),
+    ) as GaxCallStream;
+    const start = Date.now();
+    const err = await withDeadline(
+      100,
+      () =>
+        new Promise<GoogleError>(resolve => {
+          const call = apiCall(
+            {},
+            {
+              retry: createRetryOptions(
+                [Status.UNAVAILABLE],
+                createMaxRetriesBackoffSettings(10, 1, 10, 1000, 1, 1000, 1000),
+              ),
+            },
+          );
+          call.on('error', resolve);
+        }),
+    );
+    assert.strictEqual(err.code, Status.DEADLINE_EXCEEDED);
+    assert.match(err.message, /Deadline exceeded while retrying the stream/);
+    assert(Date.now() - start < 1000);
+    assert(spy.callCount > 1 && spy.callCount < 1000);
+  });
+});
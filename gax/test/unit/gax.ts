@@ -23,7 +23,8 @@
 /* eslint-disable @typescript-eslint/ban-ts-comment */
 
 import assert from 'assert';
-import {describe, it} from 'mocha';
+import {afterEach, describe, it} from 'mocha';
+import * as sinon from 'sinon';
 import * as gax from '../../src/gax';
 
 const SERVICE_NAME = 'test.interface.v1.api';
@@ -199,3 +200,102 @@ describe('gax construct settings', () => {
     assert.deepStrictEqual(settings.retry.retryCodes, [RETRY_DICT.code_c]);
   });
 });
+
+describe('computeRetryDelay', () => {
+  const backoff = gax.createBackoffSettings(
+    100,
+    2,
+    1000,
+    null,
+    null,
+    null,
+    null,
+  );
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('defaults to full jitter', () => {
+    sinon.stub(Math, 'random').returns(0.25);
+    assert.strictEqual(gax.computeRetryDelay(backoff, 400, 100), 100);
+  });
+
+  it('uses the default strategy given by the caller', () => {
+    assert.strictEqual(gax.computeRetryDelay(backoff, 400, 100, 'none'), 400);
+  });
+
+  it('supports equal jitter', () => {
+    sinon.stub(Math, 'random').returns(0.5);
+    const settings = {...backoff, jitter: 'equal' as const};
+    assert.strictEqual(gax.computeRetryDelay(settings, 400, 100), 300);
+  });
+
+  it('supports decorrelated jitter', () => {
+    const random = sinon.stub(Math, 'random').returns(1);
+    const settings = {...backoff, jitter: 'decorrelated' as const};
+    assert.strictEqual(gax.computeRetryDelay(settings, 400, 200), 600);
+    // capped by maxRetryDelayMillis
+    assert.strictEqual(gax.computeRetryDelay(settings, 400, 500), 1000);
+    random.returns(0);
+    assert.strictEqual(gax.computeRetryDelay(settings, 400, 500), 100);
+  });
+
+  it('supports custom jitter functions', () => {
+    const jitter = sinon.spy((delay: number, previousSleep: number) => {
+      return delay + previousSleep;
+    });
+    const settings = gax.createBackoffSettings(
+      100,
+      2,
+      1000,
+      null,
+      null,
+      null,
+      null,
+      jitter,
+    );
+    assert.strictEqual(gax.computeRetryDelay(settings, 400, 100), 500);
+    assert.deepStrictEqual(jitter.firstCall.args, [400, 100]);
+  });
+
+  it('rejects unknown jitter strategies when the settings are built', () => {
+    assert.throws(
+      () =>
+        gax.createBackoffSettings(
+          100,
+          2,
+          1000,
+          null,
+          null,
+          null,
+          null,
+          'partial' as gax.Jitter,
+        ),
+      /Unknown jitter strategy: partial/,
+    );
+    const retry = gax.createRetryOptions([], {
+      ...backoff,
+      jitter: 'partial' as gax.Jitter,
+    });
+    assert.throws(
+      () => new gax.CallSettings().merge({retry}),
+      /Unknown jitter strategy: partial/,
+    );
+    assert.throws(
+      () =>
+        new gax.CallSettings({
+          longrunning: {...backoff, jitter: 'partial' as gax.Jitter},
+        }),
+      /Unknown jitter strategy: partial/,
+    );
+  });
+
+  it('does not add jitter to backoff settings unless set', () => {
+    assert.strictEqual('jitter' in backoff, false);
+    assert.strictEqual(
+      gax.createMaxRetriesBackoffSettings(1, 1, 1, 1, 1, 1, 3, 'none').jitter,
+      'none',
+    );
+  });
+});
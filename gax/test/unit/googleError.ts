@@ -256,6 +256,66 @@ describe('parse grpc status details with ErrorInfo from grpc metadata', () => {
     );
   });
 
+  it('metadata contains key grpc-status-details-bin with RetryInfo', async () => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const errorProtoJson = require('../../protos/status.json');
+    const root = protobuf.Root.fromJSON(errorProtoJson);
+    const retryInfoType = root.lookupType('RetryInfo');
+    const buffer = retryInfoType
+      .encode({retryDelay: {seconds: 2, nanos: 500000000}})
+      .finish() as Buffer;
+    const any = {
+      type_url: 'type.googleapis.com/google.rpc.RetryInfo',
+      value: buffer,
+    };
+    const status = {code: 14, message: 'test', details: [any]};
+    const Status = root.lookupType('google.rpc.Status');
+    const status_buffer = Status.encode(status).finish() as Buffer;
+    const metadata = new Metadata();
+    metadata.set('grpc-status-details-bin', status_buffer);
+    const grpcError = Object.assign(
+      new GoogleError('mock error with RetryInfo'),
+      {
+        code: 14,
+        metadata: metadata,
+      },
+    );
+    const decodedError = GoogleError.parseGRPCStatusDetails(grpcError);
+    assert.strictEqual(decodedError.retryDelayMillis, 2500);
+  });
+
+  it('metadata contains key grpc-status-details-bin with QuotaFailure', async () => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const errorProtoJson = require('../../protos/status.json');
+    const root = protobuf.Root.fromJSON(errorProtoJson);
+    const quotaFailureType = root.lookupType('QuotaFailure');
+    const violation = {subject: 'project:123', description: 'Daily limit'};
+    const buffer = quotaFailureType
+      .encode({violations: [violation]})
+      .finish() as Buffer;
+    const any = {
+      type_url: 'type.googleapis.com/google.rpc.QuotaFailure',
+      value: buffer,
+    };
+    const status = {code: 8, message: 'test', details: [any]};
+    const Status = root.lookupType('google.rpc.Status');
+    const status_buffer = Status.encode(status).finish() as Buffer;
+    const metadata = new Metadata();
+    metadata.set('grpc-status-details-bin', status_buffer);
+    const grpcError = Object.assign(
+      new GoogleError('mock error with QuotaFailure'),
+      {
+        code: 8,
+        metadata: metadata,
+      },
+    );
+    const decodedError = GoogleError.parseGRPCStatusDetails(grpcError);
+    assert.deepStrictEqual(
+      JSON.parse(JSON.stringify(decodedError.quotaViolations)),
+      [violation],
+    );
+  });
+
   it('metadata has no key grpc-status-details-bin', async () => {
     const metadata = new Metadata();
     metadata.set('grpc-server-stats-bin', Buffer.from('AAKENLPQKNSALSDFJ'));
@@ -377,6 +437,43 @@ describe('http error decoding', () => {
     );
   });
 
+  it('should promote RetryInfo if exist in http error', () => {
+    const error = GoogleError.parseHttpError({
+      error: {
+        code: 429,
+        message: 'Quota exceeded',
+        status: 'RESOURCE_EXHAUSTED',
+        details: [
+          {
+            '@type': 'type.googleapis.com/google.rpc.RetryInfo',
+            retryDelay: '1.5s',
+          },
+        ],
+      },
+    });
+    assert.strictEqual(error.code, Status.RESOURCE_EXHAUSTED);
+    assert.strictEqual(error.retryDelayMillis, 1500);
+  });
+
+  it('should promote QuotaFailure if exist in http error', () => {
+    const error = GoogleError.parseHttpError({
+      error: {
+        code: 429,
+        message: 'Quota exceeded',
+        status: 'RESOURCE_EXHAUSTED',
+        details: [
+          {
+            '@type': 'type.googleapis.com/google.rpc.QuotaFailure',
+            violations: [{subject: 'project:123', description: 'Daily limit'}],
+          },
+        ],
+      },
+    });
+    assert.strictEqual(error.code, Status.RESOURCE_EXHAUSTED);
+    assert.strictEqual(error.quotaViolations!.length, 1);
+    assert.strictEqual(error.quotaViolations![0].subject, 'project:123');
+  });
+
   it('should support http error in array', () => {
     const error = GoogleError.parseHttpError([json]);
     assert.deepStrictEqual(error.code, rpcCodeFromHttpStatusCode(403));
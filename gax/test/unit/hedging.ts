@@ -0,0 +1,210 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from 'assert';
+import * as sinon from 'sinon';
+import {afterEach, beforeEach, describe, it} from 'mocha';
+import {GoogleAuth, PassThroughClient} from 'google-auth-library';
+
+import echoProtoJson = require('../fixtures/echo.json');
+import {GaxCallPromise, GRPCCall} from '../../src/apitypes';
+import {createApiCall, GrpcClient} from '../../src/fallback';
+import * as gax from '../../src/gax';
+import {GoogleError} from '../../src/googleError';
+import {Status} from '../../src/status';
+import * as utils from './utils';
+
+interface Attempt {
+  callback: Function;
+  cancel: sinon.SinonSpy;
+}
+
+describe('hedged calls', () => {
+  let clock: sinon.SinonFakeTimers;
+  let attempts: Attempt[];
+  let apiCall: GaxCallPromise;
+
+  function unavailable() {
+    const error = new GoogleError('unavailable');
+    error.code = Status.UNAVAILABLE;
+    return error;
+  }
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers({toFake: ['setTimeout', 'clearTimeout']});
+    attempts = [];
+    apiCall = utils.createApiCall(
+      (argument: {}, metadata: {}, options: {}, callback: Function) => {
+        const cancel = sinon.spy(() => {
+          const error = new GoogleError('cancelled');
+          error.code = Status.CANCELLED;
+          callback(error);
+        });
+        attempts.push({callback, cancel});
+        return cancel;
+      },
+      {
+        settings: {
+          hedging: {
+            maxAttempts: 3,
+            hedgingDelayMillis: 100,
+            nonFatalCodes: [Status.UNAVAILABLE],
+          },
+        },
+        returnCancelFunc: true,
+      },
+    );
+  });
+
+  afterEach(() => {
+    clock.restore();
+  });
+
+  it('sends a single attempt when it answers in time', async () => {
+    const promise = apiCall({});
+    await clock.tickAsync(50);
+    assert.strictEqual(attempts.length, 1);
+    attempts[0].callback(null, 42);
+    const [response] = await promise;
+    assert.strictEqual(response, 42);
+    await clock.tickAsync(500);
+    assert.strictEqual(attempts.length, 1);
+  });
+
+  it('sends a new attempt after the delay and keeps the first response', async () => {
+    const promise = apiCall({});
+    await clock.tickAsync(100);
+    assert.strictEqual(attempts.length, 2);
+    await clock.tickAsync(100);
+    assert.strictEqual(attempts.length, 3);
+    await clock.tickAsync(500);
+    assert.strictEqual(attempts.length, 3);
+
+    attempts[1].callback(null, 'second');
+    const [response] = await promise;
+    assert.strictEqual(response, 'second');
+    assert.strictEqual(attempts[0].cancel.callCount, 1);
+    assert.strictEqual(attempts[1].cancel.callCount, 0);
+    assert.strictEqual(attempts[2].cancel.callCount, 1);
+  });
+
+  it('sends a new attempt right away on a non-fatal error', async () => {
+    const promise = apiCall({});
+    await clock.tickAsync(0);
+    attempts[0].callback(unavailable());
+    assert.strictEqual(attempts.length, 2);
+    attempts[1].callback(unavailable());
+    assert.strictEqual(attempts.length, 3);
+    attempts[2].callback(unavailable());
+    await assert.rejects(promise, (err: GoogleError) => {
+      assert.strictEqual(err.code, Status.UNAVAILABLE);
+      return true;
+    });
+  });
+
+  it('waits for the pending attempts after a non-fatal error', async () => {
+    const promise = apiCall({});
+    await clock.tickAsync(200);
+    assert.strictEqual(attempts.length, 3);
+    attempts[2].callback(unavailable());
+    attempts[0].callback(null, 'first');
+    const [response] = await promise;
+    assert.strictEqual(response, 'first');
+    assert.strictEqual(attempts[1].cancel.callCount, 1);
+  });
+
+  it('fails and cancels the pending attempts on a fatal error', async () => {
+    const promise = apiCall({});
+    await clock.tickAsync(100);
+    const error = new GoogleError('invalid');
+    error.code = Status.INVALID_ARGUMENT;
+    attempts[1].callback(error);
+    await assert.rejects(promise, (err: GoogleError) => {
+      assert.strictEqual(err.code, Status.INVALID_ARGUMENT);
+      assert.match(err.note!, /not classified as non-fatal/);
+      return true;
+    });
+    assert.strictEqual(attempts[0].cancel.callCount, 1);
+    await clock.tickAsync(500);
+    assert.strictEqual(attempts.length, 2);
+  });
+
+  it('cancels all the attempts when the call is cancelled', async () => {
+    const promise = apiCall({});
+    await clock.tickAsync(100);
+    promise.cancel();
+    await assert.rejects(promise, (err: GoogleError) => {
+      assert.strictEqual(err.code, Status.CANCELLED);
+      return true;
+    });
+    assert.strictEqual(attempts[0].cancel.callCount, 1);
+    assert.strictEqual(attempts[1].cancel.callCount, 1);
+    await clock.tickAsync(500);
+    assert.strictEqual(attempts.length, 2);
+  });
+
+  it('validates the hedging options', async () => {
+    await assert.rejects(
+      apiCall({}, {hedging: {maxAttempts: 0, hedgingDelayMillis: 10}}),
+      (err: GoogleError) => {
+        assert.strictEqual(err.code, Status.INVALID_ARGUMENT);
+        return true;
+      },
+    );
+  });
+});
+
+describe('hedged calls over REST', () => {
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('cancels the slow request', async () => {
+    const gaxGrpc = new GrpcClient({authClient: new PassThroughClient()});
+    const echoService = gaxGrpc.loadProto(echoProtoJson).lookupService('Echo');
+    const echoStub = await gaxGrpc.createStub(echoService, {
+      servicePath: 'foo.example.com',
+      port: 443,
+    });
+    const signals: AbortSignal[] = [];
+    const auth = gaxGrpc.auth as GoogleAuth;
+    const fetch = sinon.stub(auth, 'fetch').callsFake(((
+      _url: string,
+      opts: {signal: AbortSignal},
+    ) => {
+      signals.push(opts.signal);
+      if (signals.length === 1) {
+        return new Promise((resolve, reject) => {
+          opts.signal.addEventListener('abort', () => {
+            const error = new Error('aborted');
+            error.name = 'AbortError';
+            reject(error);
+          });
+        });
+      }
+      return Promise.resolve(new Response(JSON.stringify({content: 'hedged'})));
+    }) as typeof auth.fetch);
+
+    const apiCall = createApiCall(
+      echoStub.echo as unknown as GRPCCall,
+      new gax.CallSettings({hedging: {maxAttempts: 2, hedgingDelayMillis: 1}}),
+    ) as GaxCallPromise;
+    const [response] = await apiCall({content: 'hedged'});
+    assert.deepStrictEqual(response, {content: 'hedged'});
+    assert.strictEqual(fetch.callCount, 2);
+    assert.strictEqual(signals[0].aborted, true);
+  });
+});
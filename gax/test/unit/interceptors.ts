@@ -0,0 +1,171 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from 'assert';
+import * as sinon from 'sinon';
+import {describe, it} from 'mocha';
+
+import {APICallback} from '../../src/apitypes';
+import {CallSettings} from '../../src/gax';
+import {GoogleError} from '../../src/googleError';
+import {GrpcClient} from '../../src/grpc';
+import {GrpcClient as FallbackGrpcClient} from '../../src/fallback';
+import {Interceptor, InterceptorContext} from '../../src/interceptors';
+import {Status} from '../../src/status';
+import * as utils from './utils';
+
+const otherArgs = {
+  headers: {'x-goog-api-client': 'gax'},
+  metadataBuilder: (abTests?: {}, headers?: {}) => ({...headers}),
+};
+
+describe('createApiCall with interceptors', () => {
+  it('runs the interceptors in order around the call', async () => {
+    const spy = sinon.spy(
+      (argument: {}, metadata: {}, options: {}, callback: APICallback) => {
+        callback(null, {argument, metadata});
+      },
+    );
+    const order: string[] = [];
+    const outer: Interceptor = async (context, next) => {
+      order.push('outer');
+      const result = await next({
+        ...context,
+        request: {...context.request, rewritten: 'yes'},
+      });
+      order.push('outer done');
+      return result;
+    };
+    const inner: Interceptor = async (context, next) => {
+      order.push('inner');
+      const headers = context.metadata as {[name: string]: string};
+      headers['x-added'] = 'yes';
+      const result = await next(context);
+      return {...result, response: {...result.response, inspected: true}};
+    };
+    const apiCall = utils.createApiCall(spy, {
+      settings: {
+        otherArgs,
+        interceptors: [outer, inner],
+        apiName: 'google.example.v1.Library',
+      },
+    });
+    const [response] = await apiCall({name: 'book'});
+    assert.deepStrictEqual(order, ['outer', 'inner', 'outer done']);
+    assert.deepStrictEqual(response, {
+      argument: {name: 'book', rewritten: 'yes'},
+      metadata: {'x-goog-api-client': 'gax', 'x-added': 'yes'},
+      inspected: true,
+    });
+  });
+
+  it('runs around each attempt of a retried call', async () => {
+    const spy = sinon.spy(utils.fail);
+    const retry = utils.createRetryOptions(0, 1, 0, 100, 1, 100);
+    retry.backoffSettings.maxRetries = 3;
+    const contexts: InterceptorContext[] = [];
+    const errors: GoogleError[] = [];
+    const interceptor: Interceptor = async (context, next) => {
+      contexts.push(context);
+      try {
+        return await next(context);
+      } catch (err) {
+        errors.push(err as GoogleError);
+        throw err;
+      }
+    };
+    const apiCall = utils.createApiCall(spy, {
+      settings: {retry, interceptors: [interceptor]},
+    });
+    await assert.rejects(apiCall({}), /Exceeded maximum number of retries/);
+    assert.strictEqual(spy.callCount, 3);
+    assert.strictEqual(contexts.length, 3);
+    assert.strictEqual(errors.length, 3);
+    assert.strictEqual(errors[0].code, utils.FAKE_STATUS_CODE_1);
+  });
+
+  it('lets interceptors map the errors', async () => {
+    const spy = sinon.spy(utils.fail);
+    const retry = utils.createRetryOptions(0, 1, 0, 100, 1, 100);
+    retry.backoffSettings.maxRetries = 3;
+    const interceptor: Interceptor = (context, next) =>
+      next(context).catch(() => {
+        const error = new GoogleError('Not allowed');
+        error.code = Status.PERMISSION_DENIED;
+        throw error;
+      });
+    const apiCall = utils.createApiCall(spy, {
+      settings: {retry, interceptors: [interceptor]},
+    });
+    await assert.rejects(apiCall({}), (err: GoogleError) => {
+      assert.strictEqual(err.code, Status.PERMISSION_DENIED);
+      return true;
+    });
+    // the mapped error is not retried
+    assert.strictEqual(spy.callCount, 1);
+  });
+
+  it('cancels the call waiting in an interceptor', async () => {
+    const spy = sinon.spy();
+    let resume: () => void;
+    const interceptor: Interceptor = async (context, next) => {
+      await new Promise<void>(resolve => (resume = resolve));
+      return next(context);
+    };
+    const apiCall = utils.createApiCall(spy, {
+      settings: {interceptors: [interceptor]},
+    });
+    const promise = apiCall({});
+    await new Promise(resolve => setImmediate(resolve));
+    promise.cancel();
+    await assert.rejects(promise, (err: GoogleError) => {
+      assert.strictEqual(err.code, Status.CANCELLED);
+      return true;
+    });
+    resume!();
+    await new Promise(resolve => setImmediate(resolve));
+    assert.strictEqual(spy.callCount, 0);
+  });
+
+  it('runs the interceptors of the call inside those of the client', () => {
+    const client: Interceptor = (context, next) => next(context);
+    const call: Interceptor = (context, next) => next(context);
+    const settings = new CallSettings({interceptors: [client]});
+    assert.deepStrictEqual(
+      settings.merge({interceptors: [call]}).interceptors,
+      [client, call],
+    );
+    assert.strictEqual(settings.merge({interceptors: null}).interceptors, null);
+    assert.deepStrictEqual(settings.merge({}).interceptors, [client]);
+  });
+
+  const clients = {grpc: GrpcClient, fallback: FallbackGrpcClient};
+  for (const [transport, Client] of Object.entries(clients)) {
+    it(`is set on all the methods by the ${transport} GrpcClient`, () => {
+      const interceptor: Interceptor = (context, next) => next(context);
+      const grpcClient = new Client({interceptors: [interceptor]});
+      const settings = grpcClient.constructSettings(
+        'SampleApi',
+        {interfaces: {SampleApi: {methods: {SampleMethod: {}}}}},
+        {},
+        {},
+      );
+      assert.deepStrictEqual(settings.sampleMethod.interceptors, [interceptor]);
+      assert.strictEqual(settings.sampleMethod.apiName, 'SampleApi');
+      assert.strictEqual(settings.sampleMethod.methodName, 'SampleMethod');
+    });
+  }
+});
@@ -0,0 +1,198 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from 'assert';
+import {afterEach, beforeEach, describe, it} from 'mocha';
+import {DebugLogBackend, LogFields, setBackend} from 'google-logging-utils';
+import * as util from 'util';
+
+import {APICallback} from '../../src/apitypes';
+import {CallSettings} from '../../src/gax';
+import {GrpcClient} from '../../src/grpc';
+import {
+  CallLogFields,
+  gaxLogger,
+  startCallLog,
+  summarizePayload,
+} from '../../src/logging';
+import * as utils from './utils';
+
+interface Entry {
+  namespace: string;
+  severity?: string;
+  fields: CallLogFields;
+  message: string;
+}
+
+// Records the entries of all the namespaces.
+class RecordingBackend implements DebugLogBackend {
+  entries: Entry[] = [];
+
+  log(namespace: string, fields: LogFields, ...args: unknown[]) {
+    this.entries.push({
+      namespace,
+      severity: fields.severity,
+      fields: fields.other as CallLogFields,
+      message: util.format(...args),
+    });
+  }
+
+  setFilters() {}
+}
+
+const settings = {
+  apiName: 'google.example.v1.Library',
+  methodName: 'GetBook',
+};
+const method = 'google.example.v1.Library/GetBook';
+
+describe('logging', () => {
+  let backend: RecordingBackend;
+
+  beforeEach(() => {
+    backend = new RecordingBackend();
+    setBackend(backend);
+  });
+
+  afterEach(() => {
+    setBackend(undefined);
+  });
+
+  it('logs a call and its retries', async () => {
+    let toFail = 2;
+    const func = (
+      argument: {},
+      metadata: {},
+      options: {},
+      callback: APICallback,
+    ) => {
+      if (toFail-- > 0) {
+        utils.fail(argument, metadata, options, callback);
+      } else {
+        callback(null, {name: 'books/1'});
+      }
+    };
+    const retry = utils.createRetryOptions(0, 1, 0, 100, 1, 100);
+    retry.backoffSettings.maxRetries = 3;
+    const apiCall = utils.createApiCall(func, {settings: {...settings, retry}});
+    await apiCall({name: 'books/1'});
+
+    const entries = backend.entries;
+    assert.ok(entries.every(entry => entry.namespace === 'gax'));
+    assert.deepStrictEqual(
+      entries.map(entry => [entry.severity, entry.message]),
+      [
+        ['DEBUG', `calling ${method}`],
+        [
+          'INFO',
+          `attempt 1 of ${method} failed with CANCELLED, retrying in 0ms`,
+        ],
+        [
+          'INFO',
+          `attempt 2 of ${method} failed with CANCELLED, retrying in 0ms`,
+        ],
+        [
+          'DEBUG',
+          `${method} succeeded in ${entries[3].fields.durationMillis}ms`,
+        ],
+      ],
+    );
+    assert.deepStrictEqual(entries[0].fields, {
+      method,
+      request: '{"name":"books/1"}',
+    });
+    assert.deepStrictEqual(entries[1].fields, {
+      method,
+      attempt: 1,
+      status: 'CANCELLED',
+      delayMillis: 0,
+    });
+    assert.strictEqual(entries[3].fields.status, 'OK');
+    assert.strictEqual(entries[3].fields.response, '{"name":"books/1"}');
+    assert.strictEqual(entries[3].fields.responseSize, 18);
+  });
+
+  it('redacts the logged requests and responses', async () => {
+    const grpcClient = new GrpcClient({
+      logRedaction: {fields: ['book.author.email']},
+    });
+    const methods = grpcClient.constructSettings(
+      'google.example.v1.Library',
+      {interfaces: {'google.example.v1.Library': {methods: {GetBook: {}}}}},
+      {},
+      {},
+    );
+    const func = (
+      argument: {},
+      metadata: {},
+      options: {},
+      callback: APICallback,
+    ) => {
+      callback(null, {
+        book: {author: {name: 'Jane', email: 'jane@example.com'}},
+      });
+    };
+    const apiCall = utils.createApiCall(func, {settings: methods.getBook});
+    await apiCall({name: 'books/1', accessToken: 'abc'});
+
+    const entries = backend.entries;
+    assert.strictEqual(
+      entries[0].fields.request,
+      '{"name":"books/1","accessToken":"[REDACTED]"}',
+    );
+    assert.strictEqual(
+      entries[1].fields.response,
+      '{"book":{"author":{"name":"Jane","email":"[REDACTED]"}}}',
+    );
+  });
+
+  it('logs the status of a failed call', async () => {
+    const apiCall = utils.createApiCall(utils.fail, {settings});
+    await assert.rejects(apiCall({}));
+    const last = backend.entries[backend.entries.length - 1];
+    assert.strictEqual(last.severity, 'WARNING');
+    assert.strictEqual(last.fields.status, 'CANCELLED');
+    assert.match(last.message, /GetBook failed with CANCELLED in \d+ms/);
+  });
+
+  it('logs the status of a failed stream', done => {
+    const apiCall = utils.createFailingStreamCall(settings);
+    apiCall({}).on('error', () => {
+      setImmediate(() => {
+        const last = backend.entries[backend.entries.length - 1];
+        assert.strictEqual(last.severity, 'WARNING');
+        assert.strictEqual(last.fields.status, 'NOT_FOUND');
+        assert.match(last.message, /GetBook failed with NOT_FOUND in \d+ms/);
+        done();
+      });
+    });
+  });
+
+  it('truncates the logged requests', () => {
+    const request = {data: 'x'.repeat(2000)};
+    const summary = summarizePayload(request)!;
+    assert.strictEqual(summary.length, 1003);
+    assert.ok(summary.startsWith('{"data":"xxx'));
+    assert.ok(summary.endsWith('...'));
+  });
+
+  it('does nothing when logging is disabled', () => {
+    setBackend(null);
+    assert.strictEqual(gaxLogger(), undefined);
+    assert.strictEqual(startCallLog(new CallSettings(settings), {}), undefined);
+    assert.strictEqual(backend.entries.length, 0);
+  });
+});
@@ -18,14 +18,17 @@
 
 import assert from 'assert';
 import {status} from '@grpc/grpc-js';
+import {setBackend} from 'google-logging-utils';
 import * as sinon from 'sinon';
 import {describe, it} from 'mocha';
+import * as util from 'util';
 import {LongrunningDescriptor} from '../../src';
 import * as operationProtos from '../../protos/operations';
 import {GaxCallPromise} from '../../src/apitypes';
 import * as gax from '../../src/gax';
 import {GoogleError} from '../../src/googleError';
 import * as longrunning from '../../src/longRunningCalls/longrunning';
+import {MetricsRecorder} from '../../src/metrics';
 import {OperationsClient} from '../../src/operationsClient';
 
 import * as utils from './utils';
@@ -644,6 +647,187 @@ describe('longrunning', () => {
           });
       });
 
+      it('polls again after the delay from google.rpc.RetryInfo', done => {
+        const func = (
+          argument: {},
+          metadata: {},
+          options: {},
+          callback: Function,
+        ) => {
+          callback(null, PENDING_OP);
+        };
+        const googleError = new GoogleError('Try again later');
+        googleError.code = status.UNAVAILABLE;
+        googleError.retryDelayMillis = 1;
+        const client = mockOperationsClient();
+        client.getOperationInternal = client.getOperation = sinon.spy(() => {
+          const promise =
+            client.getOperation.callCount === 1
+              ? Promise.reject(googleError)
+              : Promise.resolve([SUCCESSFUL_OP]);
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          (promise as any).cancel = () => {};
+          return promise;
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        }) as any;
+        const apiCall = createApiCall(func, client);
+        apiCall({})
+          .then(responses => {
+            const operation = responses[0] as longrunning.Operation;
+            operation.on('error', err => {
+              done(err);
+            });
+            operation.on('complete', result => {
+              assert.strictEqual(client.getOperation.callCount, 2);
+              assert.strictEqual(result, RESPONSE_VAL);
+              done();
+            });
+          })
+          .catch(err => {
+            done(err);
+          });
+      });
+
+      it('calls the hooks of the call for each poll', async () => {
+        const func = (
+          argument: {},
+          metadata: {},
+          options: {},
+          callback: Function,
+        ) => {
+          callback(null, PENDING_OP);
+        };
+        const googleError = new GoogleError('Try again later');
+        googleError.code = status.UNAVAILABLE;
+        googleError.retryDelayMillis = 1;
+        const client = mockOperationsClient();
+        client.getOperationInternal = client.getOperation = sinon.spy(() => {
+          const promise =
+            client.getOperation.callCount === 1
+              ? Promise.reject(googleError)
+              : Promise.resolve([SUCCESSFUL_OP]);
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          (promise as any).cancel = () => {};
+          return promise;
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        }) as any;
+        const events: Array<{}> = [];
+        const hooks: gax.CallHooks = {
+          onAttemptStart: event => events.push(['start', event.attempt]),
+          onAttemptFailure: event =>
+            events.push(['failure', event.attempt, event.delayMillis]),
+          onCallFinish: event =>
+            events.push(['finish', event.attempts, event.error]),
+        };
+        const apiCall = createApiCall(func, client);
+        const [operation] = await apiCall({}, {hooks});
+        // the call starting the operation
+        assert.deepStrictEqual(events.splice(0), [
+          ['start', 1],
+          ['finish', 1, null],
+        ]);
+        await (operation as longrunning.Operation).promise();
+        assert.deepStrictEqual(events, [
+          ['start', 1],
+          ['failure', 1, 1],
+          ['start', 2],
+          ['finish', 2, null],
+        ]);
+        // the polls do not call the hooks themselves
+        assert.strictEqual(
+          client.getOperation.firstCall.args[1].hooks,
+          undefined,
+        );
+      });
+
+      it('records the number of polls in the metrics', async () => {
+        const func = (
+          argument: {},
+          metadata: {},
+          options: {},
+          callback: Function,
+        ) => {
+          callback(null, PENDING_OP);
+        };
+        const client = mockOperationsClient({expectedCalls: 2});
+        const polls: Array<[number, number?]> = [];
+        const metrics: MetricsRecorder = {
+          recordPollCount: (count, attributes) =>
+            polls.push([count, attributes.code]),
+        };
+        const apiCall = createApiCall(func, client);
+        const [operation] = await apiCall({}, {metrics});
+        await (operation as longrunning.Operation).promise();
+        assert.deepStrictEqual(polls, [[2, status.OK]]);
+        // the polls are not recorded as calls
+        assert.strictEqual(
+          client.getOperation.firstCall.args[1].metrics,
+          undefined,
+        );
+      });
+
+      it('logs the polls of the operation', async () => {
+        const func = (
+          argument: {},
+          metadata: {},
+          options: {},
+          callback: Function,
+        ) => {
+          callback(null, PENDING_OP);
+        };
+        const messages: string[] = [];
+        setBackend({
+          log: (namespace, fields, ...args) =>
+            messages.push(util.format(...args)),
+          setFilters: () => {},
+        });
+        try {
+          const client = mockOperationsClient({expectedCalls: 2});
+          const apiCall = createApiCall(func, client);
+          const [operation] = await apiCall({});
+          await (operation as longrunning.Operation).promise();
+        } finally {
+          setBackend(undefined);
+        }
+        assert.deepStrictEqual(messages.slice(2), [
+          `poll 1 of operation ${OPERATION_NAME}`,
+          `operation ${OPERATION_NAME} is not done, polling again in 100ms`,
+          `poll 2 of operation ${OPERATION_NAME}`,
+          `operation ${OPERATION_NAME} completed after 2 polls`,
+        ]);
+      });
+
+      it('stops polling when the signal is aborted', async () => {
+        const func = (
+          argument: {},
+          metadata: {},
+          options: {},
+          callback: Function,
+        ) => {
+          callback(null, PENDING_OP);
+        };
+        const client = mockOperationsClient({dontResolve: true});
+        const apiCall = createApiCall(func, client);
+        const controller = new AbortController();
+        const [operation] = await apiCall({}, {signal: controller.signal});
+        const promise = (operation as longrunning.Operation).promise();
+        await new Promise(resolve => setImmediate(resolve));
+        assert.strictEqual(client.getOperation.callCount, 1);
+        // the polls are aborted by the polling loop
+        assert.strictEqual(
+          client.getOperation.firstCall.args[1].signal,
+          undefined,
+        );
+        controller.abort('shutting down');
+        await assert.rejects(promise, (err: GoogleError) => {
+          assert.strictEqual(err.code, status.CANCELLED);
+          assert.strictEqual(err.cause, 'shutting down');
+          return true;
+        });
+        assert.strictEqual(client.cancelGetOperationSpy.callCount, 1);
+        assert.strictEqual(client.getOperation.callCount, 1);
+      });
+
       it('emits progress on updated operations.', done => {
         const func = (
           argument: {},
@@ -0,0 +1,313 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from 'assert';
+import * as sinon from 'sinon';
+import {afterEach, describe, it} from 'mocha';
+import {PassThrough} from 'stream';
+
+import {APICallback, GaxCallStream, GRPCCall} from '../../src/apitypes';
+import {BundleDescriptor} from '../../src/bundlingCalls/bundleDescriptor';
+import {createApiCall} from '../../src/createApiCall';
+import {CallSettings} from '../../src/gax';
+import {GoogleError} from '../../src/googleError';
+import {GrpcClient} from '../../src/grpc';
+import {GrpcClient as FallbackGrpcClient} from '../../src/fallback';
+import {
+  MetricAttributes,
+  MetricsRecorder,
+  OpenTelemetryMetricsApi,
+  OpenTelemetryMetricsRecorder,
+} from '../../src/metrics';
+import {PageDescriptor} from '../../src/paginationCalls/pageDescriptor';
+import {Status} from '../../src/status';
+import {StreamDescriptor} from '../../src/streamingCalls/streamDescriptor';
+import {StreamType} from '../../src/streamingCalls/streaming';
+import * as utils from './utils';
+
+type Recorded = [string, number | undefined, MetricAttributes];
+
+// Records the metrics in order, as [metric, value, attributes].
+function recordingRecorder() {
+  const recorded: Recorded[] = [];
+  const recorder: MetricsRecorder = {
+    recordCallLatency: (millis, attributes) =>
+      recorded.push(['callLatency', millis, attributes]),
+    recordAttemptLatency: (millis, attributes) =>
+      recorded.push(['attemptLatency', millis, attributes]),
+    recordAttemptCount: (attempts, attributes) =>
+      recorded.push(['attemptCount', attempts, attributes]),
+    recordCallStatus: attributes =>
+      recorded.push(['callStatus', undefined, attributes]),
+    recordBundleSize: (elements, attributes) =>
+      recorded.push(['bundleSize', elements, attributes]),
+    recordPollCount: (polls, attributes) =>
+      recorded.push(['pollCount', polls, attributes]),
+    recordStreamMessages: (messages, attributes) =>
+      recorded.push(['streamMessages', messages, attributes]),
+  };
+  return {recorder, recorded};
+}
+
+const method = {service: 'google.example.v1.Library', method: 'GetBook'};
+const settings = {apiName: method.service, methodName: method.method};
+
+describe('metrics', () => {
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('records the latency and the attempts of a call', async () => {
+    const clock = sinon.useFakeTimers({
+      toFake: ['Date', 'setTimeout', 'clearTimeout'],
+    });
+    const {recorder, recorded} = recordingRecorder();
+    let toFail = 2;
+    const func = (
+      argument: {},
+      metadata: {},
+      options: {},
+      callback: APICallback,
+    ) => {
+      setTimeout(() => {
+        if (toFail-- > 0) {
+          utils.fail(argument, metadata, options, callback);
+        } else {
+          callback(null, {});
+        }
+      }, 10);
+    };
+    const retry = utils.createRetryOptions(0, 1, 0, 100, 1, 100);
+    retry.backoffSettings.maxRetries = 3;
+    const apiCall = utils.createApiCall(func, {
+      settings: {...settings, retry, metrics: recorder},
+    });
+    const promise = apiCall({});
+    await clock.tickAsync(100);
+    await promise;
+
+    const failed = {...method, code: utils.FAKE_STATUS_CODE_1};
+    const ok = {...method, code: Status.OK};
+    // the call also waits between its attempts
+    const callLatency = recorded[3][1]!;
+    assert.ok(callLatency >= 30 && callLatency < 40);
+    assert.deepStrictEqual(recorded, [
+      ['attemptLatency', 10, failed],
+      ['attemptLatency', 10, failed],
+      ['attemptLatency', 10, ok],
+      ['callLatency', callLatency, ok],
+      ['callStatus', undefined, ok],
+      ['attemptCount', 3, ok],
+    ]);
+  });
+
+  it('records the status code of a failed call', async () => {
+    const {recorder, recorded} = recordingRecorder();
+    const apiCall = utils.createApiCall(utils.fail, {
+      settings: {...settings, metrics: recorder},
+    });
+    await assert.rejects(apiCall({}));
+    assert.deepStrictEqual(
+      recorded.filter(([metric]) => metric === 'callStatus'),
+      [['callStatus', undefined, {...method, code: utils.FAKE_STATUS_CODE_1}]],
+    );
+  });
+
+  it('counts the attempts of all the pages of a paged call', async () => {
+    const {recorder, recorded} = recordingRecorder();
+    const func = (
+      request: {pageToken?: number},
+      metadata: {},
+      options: {},
+      callback: APICallback,
+    ) => {
+      const pageToken = request.pageToken || 0;
+      callback(null, {
+        nums: [pageToken],
+        nextPageToken: pageToken < 2 ? pageToken + 1 : undefined,
+      });
+    };
+    const apiCall = utils.createApiCall(func, {
+      settings: {...settings, metrics: recorder},
+      descriptor: new PageDescriptor('pageToken', 'nextPageToken', 'nums'),
+    });
+    await apiCall({});
+    assert.deepStrictEqual(
+      recorded.filter(([metric]) => metric === 'attemptCount'),
+      [['attemptCount', 3, {...method, code: Status.OK}]],
+    );
+  });
+
+  it('counts the messages received by a stream', done => {
+    const {recorder, recorded} = recordingRecorder();
+    const func = () => {
+      const stream = new PassThrough({objectMode: true});
+      stream.push({resources: [1, 2]});
+      stream.push({resources: [3]});
+      stream.push(null);
+      setImmediate(() => stream.emit('status', {code: Status.OK}));
+      return stream;
+    };
+    const apiCall = createApiCall(
+      Promise.resolve(func as unknown as GRPCCall),
+      new CallSettings({...settings, metrics: recorder}),
+      new StreamDescriptor(StreamType.SERVER_STREAMING),
+    ) as GaxCallStream;
+    const stream = apiCall({});
+    const messages: Array<{}> = [];
+    stream.on('data', message => messages.push(message));
+    stream.on('end', () => {
+      assert.strictEqual(messages.length, 2);
+      assert.deepStrictEqual(
+        recorded.filter(([metric]) => metric === 'streamMessages'),
+        [['streamMessages', 2, {...method, code: Status.OK}]],
+      );
+      done();
+    });
+  });
+
+  it('records the error of a failed stream', done => {
+    const {recorder, recorded} = recordingRecorder();
+    const apiCall = utils.createFailingStreamCall({
+      ...settings,
+      metrics: recorder,
+    });
+    apiCall({}).on('error', err => {
+      assert.strictEqual((err as GoogleError).code, Status.NOT_FOUND);
+      setImmediate(() => {
+        assert.deepStrictEqual(
+          recorded.filter(([metric]) => metric === 'callStatus'),
+          [['callStatus', undefined, {...method, code: Status.NOT_FOUND}]],
+        );
+        done();
+      });
+    });
+  });
+
+  it('records the size of the bundles', async () => {
+    const {recorder, recorded} = recordingRecorder();
+    const func = (
+      argument: {},
+      metadata: {},
+      options: {},
+      callback: APICallback,
+    ) => callback(null, argument);
+    const apiCall = utils.createApiCall(func, {
+      settings: {
+        ...settings,
+        bundleOptions: {elementCountThreshold: 5, delayThreshold: 10},
+        metrics: recorder,
+      },
+      descriptor: new BundleDescriptor('field1', ['field2'], 'field1', () => 1),
+    });
+    await Promise.all([
+      apiCall({field1: [1, 2, 3], field2: 'id'}),
+      apiCall({field1: [4, 5], field2: 'id'}),
+    ]);
+    assert.deepStrictEqual(
+      recorded.filter(([metric]) => metric === 'bundleSize'),
+      [['bundleSize', 5, method]],
+    );
+  });
+
+  it('does not record the calls with null metrics', async () => {
+    const {recorder, recorded} = recordingRecorder();
+    const apiCall = utils.createApiCall(
+      (argument: {}, metadata: {}, options: {}, callback: APICallback) =>
+        callback(null, {}),
+      {settings: {...settings, metrics: recorder}},
+    );
+    await apiCall({}, {metrics: null});
+    assert.strictEqual(recorded.length, 0);
+  });
+
+  const clients = {grpc: GrpcClient, fallback: FallbackGrpcClient};
+  for (const [transport, Client] of Object.entries(clients)) {
+    it(`is set on all the methods by the ${transport} GrpcClient`, () => {
+      const {recorder} = recordingRecorder();
+      const grpcClient = new Client({metrics: recorder});
+      const settings = grpcClient.constructSettings(
+        'SampleApi',
+        {interfaces: {SampleApi: {methods: {SampleMethod: {}}}}},
+        {},
+        {},
+      );
+      assert.strictEqual(settings.sampleMethod.metrics, recorder);
+    });
+  }
+});
+
+describe('OpenTelemetryMetricsRecorder', () => {
+  it('records the metrics on the instruments of the meter', () => {
+    const recorded: Array<[string, number, {}?]> = [];
+    const instrument = (name: string) => ({
+      record: (value: number, attributes?: {}) =>
+        recorded.push([name, value, attributes]),
+      add: (value: number, attributes?: {}) =>
+        recorded.push([name, value, attributes]),
+    });
+    const api: OpenTelemetryMetricsApi = {
+      metrics: {
+        getMeter: () => ({
+          createHistogram: instrument,
+          createCounter: instrument,
+        }),
+      },
+    };
+    const recorder = new OpenTelemetryMetricsRecorder({api});
+    recorder.recordCallLatency(25, {...method, code: Status.NOT_FOUND});
+    recorder.recordCallStatus({...method, code: Status.NOT_FOUND});
+    recorder.recordBundleSize(10, method);
+    assert.deepStrictEqual(recorded, [
+      [
+        'gax.call.duration',
+        25,
+        {
+          'rpc.service': method.service,
+          'rpc.method': method.method,
+          'rpc.grpc.status_code': Status.NOT_FOUND,
+        },
+      ],
+      [
+        'gax.calls',
+        1,
+        {
+          'rpc.service': method.service,
+          'rpc.method': method.method,
+          'rpc.grpc.status_code': Status.NOT_FOUND,
+        },
+      ],
+      [
+        'gax.bundle.size',
+        10,
+        {'rpc.service': method.service, 'rpc.method': method.method},
+      ],
+    ]);
+  });
+
+  it('requires @opentelemetry/api', function () {
+    try {
+      require.resolve('@opentelemetry/api');
+      this.skip();
+    } catch (err) {
+      // not installed
+    }
+    assert.throws(
+      () => new OpenTelemetryMetricsRecorder(),
+      /requires @opentelemetry\/api/,
+    );
+  });
+});
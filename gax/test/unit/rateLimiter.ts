@@ -0,0 +1,311 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from 'assert';
+import * as sinon from 'sinon';
+import {afterEach, beforeEach, describe, it} from 'mocha';
+
+import {APICallback} from '../../src/apitypes';
+import {GoogleError} from '../../src/googleError';
+import {GrpcClient} from '../../src/grpc';
+import {GrpcClient as FallbackGrpcClient} from '../../src/fallback';
+import {AdaptiveRateLimiter, RateLimiter} from '../../src/rateLimiter';
+import {Status} from '../../src/status';
+import * as utils from './utils';
+
+describe('RateLimiter', () => {
+  let clock: sinon.SinonFakeTimers;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers({
+      toFake: ['Date', 'setTimeout', 'clearTimeout'],
+    });
+  });
+
+  afterEach(() => {
+    clock.restore();
+  });
+
+  it('lets a burst through, then queues requests in order', () => {
+    const limiter = new RateLimiter({requestsPerSecond: 2, burst: 2});
+    const granted: number[] = [];
+    for (let i = 0; i < 5; ++i) {
+      limiter.acquire(err => {
+        assert.strictEqual(err, null);
+        granted.push(i);
+      });
+    }
+    assert.deepStrictEqual(granted, [0, 1]);
+    assert.strictEqual(limiter.queueLength, 3);
+    clock.tick(499);
+    assert.deepStrictEqual(granted, [0, 1]);
+    clock.tick(1);
+    assert.deepStrictEqual(granted, [0, 1, 2]);
+    clock.tick(1000);
+    assert.deepStrictEqual(granted, [0, 1, 2, 3, 4]);
+    assert.strictEqual(limiter.queueLength, 0);
+  });
+
+  it('fails the requests over the queue size', () => {
+    const limiter = new RateLimiter({requestsPerSecond: 1, maxQueueSize: 1});
+    const errors: Array<GoogleError | null> = [];
+    for (let i = 0; i < 3; ++i) {
+      limiter.acquire(err => errors.push(err));
+    }
+    assert.strictEqual(errors.length, 2);
+    assert.strictEqual(errors[0], null);
+    assert.strictEqual(errors[1]!.code, Status.RESOURCE_EXHAUSTED);
+    assert.match(errors[1]!.message, /queue is full/);
+  });
+
+  it('fails the requests waiting longer than maxWaitMillis', () => {
+    const limiter = new RateLimiter({
+      requestsPerSecond: 1,
+      maxWaitMillis: 1500,
+    });
+    const errors: Array<GoogleError | null> = [];
+    for (let i = 0; i < 3; ++i) {
+      limiter.acquire(err => errors.push(err));
+    }
+    clock.tick(1000);
+    assert.deepStrictEqual(errors.slice(), [null, null]);
+    clock.tick(500);
+    assert.strictEqual(errors.length, 3);
+    assert.strictEqual(errors[2]!.code, Status.RESOURCE_EXHAUSTED);
+    assert.strictEqual(limiter.queueLength, 0);
+  });
+
+  it('removes the cancelled requests from the queue', () => {
+    const limiter = new RateLimiter({requestsPerSecond: 1});
+    const granted: number[] = [];
+    limiter.acquire(() => granted.push(0));
+    const leaveQueue = limiter.acquire(() => granted.push(1));
+    limiter.acquire(() => granted.push(2));
+    assert.strictEqual(leaveQueue(), true);
+    assert.strictEqual(leaveQueue(), false);
+    clock.tick(1000);
+    assert.deepStrictEqual(granted, [0, 2]);
+  });
+
+  it('validates its options', () => {
+    assert.throws(
+      () => new RateLimiter({requestsPerSecond: 0}),
+      /requestsPerSecond/,
+    );
+    assert.throws(
+      () => new RateLimiter({requestsPerSecond: 1, burst: 0.5}),
+      /burst/,
+    );
+    assert.throws(
+      () => new RateLimiter({requestsPerSecond: 1, maxWaitMillis: -1}),
+      /maxWaitMillis/,
+    );
+  });
+});
+
+describe('AdaptiveRateLimiter', () => {
+  let clock: sinon.SinonFakeTimers;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers({
+      toFake: ['Date', 'setTimeout', 'clearTimeout'],
+    });
+  });
+
+  afterEach(() => {
+    clock.restore();
+  });
+
+  function quotaFailure() {
+    const error = new GoogleError('Quota exceeded');
+    error.code = Status.RESOURCE_EXHAUSTED;
+    error.quotaViolations = [{subject: 'project:123'}];
+    return error;
+  }
+
+  it('slows down on quota failures, and speeds up on successes', () => {
+    const limiter = new AdaptiveRateLimiter({
+      requestsPerSecond: 8,
+      additiveIncrease: 2,
+    });
+    limiter.record(quotaFailure());
+    assert.strictEqual(limiter.requestsPerSecond, 4);
+    // likely caused by the same burst of requests
+    limiter.record(quotaFailure());
+    assert.strictEqual(limiter.requestsPerSecond, 4);
+    clock.tick(1000);
+    limiter.record(quotaFailure());
+    assert.strictEqual(limiter.requestsPerSecond, 2);
+    limiter.record();
+    assert.strictEqual(limiter.requestsPerSecond, 3);
+    for (let i = 0; i < 100; ++i) {
+      limiter.record(null);
+    }
+    assert.strictEqual(limiter.requestsPerSecond, 8);
+  });
+
+  it('only slows down on errors with QuotaFailure details', () => {
+    const limiter = new AdaptiveRateLimiter({requestsPerSecond: 8});
+    const error = quotaFailure();
+    delete error.quotaViolations;
+    limiter.record(error);
+    const unavailable = new GoogleError('unavailable');
+    unavailable.code = Status.UNAVAILABLE;
+    limiter.record(unavailable);
+    assert.strictEqual(limiter.requestsPerSecond, 8);
+  });
+
+  it('never goes below its minimum rate', () => {
+    const limiter = new AdaptiveRateLimiter({
+      requestsPerSecond: 8,
+      minRequestsPerSecond: 3,
+      decreaseIntervalMillis: 0,
+    });
+    limiter.record(quotaFailure());
+    limiter.record(quotaFailure());
+    assert.strictEqual(limiter.requestsPerSecond, 3);
+  });
+
+  it('sends the waiting requests at the new rate', () => {
+    const limiter = new AdaptiveRateLimiter({requestsPerSecond: 2, burst: 1});
+    const granted = sinon.spy();
+    limiter.acquire(granted);
+    limiter.acquire(granted);
+    limiter.record(quotaFailure());
+    clock.tick(500);
+    assert.strictEqual(granted.callCount, 1);
+    clock.tick(500);
+    assert.strictEqual(granted.callCount, 2);
+  });
+
+  it('validates its options', () => {
+    assert.throws(
+      () =>
+        new AdaptiveRateLimiter({
+          requestsPerSecond: 1,
+          minRequestsPerSecond: 2,
+        }),
+      /minRequestsPerSecond/,
+    );
+    assert.throws(
+      () => new AdaptiveRateLimiter({requestsPerSecond: 1, decreaseFactor: 1}),
+      /decreaseFactor/,
+    );
+  });
+});
+
+describe('createApiCall with a rate limiter', () => {
+  let clock: sinon.SinonFakeTimers;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers({
+      toFake: ['Date', 'setTimeout', 'clearTimeout'],
+    });
+  });
+
+  afterEach(() => {
+    clock.restore();
+  });
+
+  it('delays the calls over the rate', async () => {
+    const spy = sinon.spy(
+      (argument: {}, metadata: {}, options: {}, callback: APICallback) => {
+        callback(null, argument);
+      },
+    );
+    const rateLimiter = new RateLimiter({requestsPerSecond: 1});
+    const apiCall = utils.createApiCall(spy, {settings: {rateLimiter}});
+    const first = apiCall({n: 1});
+    const second = apiCall({n: 2});
+    await clock.tickAsync(0);
+    assert.strictEqual(spy.callCount, 1);
+    await clock.tickAsync(1000);
+    assert.strictEqual(spy.callCount, 2);
+    assert.deepStrictEqual((await first)[0], {n: 1});
+    assert.deepStrictEqual((await second)[0], {n: 2});
+  });
+
+  it('spends a token on each retry', async () => {
+    const spy = sinon.spy(utils.fail);
+    const retry = utils.createRetryOptions(0, 1, 0, 100, 1, 100);
+    retry.backoffSettings.maxRetries = 3;
+    const rateLimiter = new RateLimiter({requestsPerSecond: 1});
+    const apiCall = utils.createApiCall(spy, {settings: {retry, rateLimiter}});
+    const rejected = assert.rejects(
+      apiCall({}),
+      /Exceeded maximum number of retries/,
+    );
+    await clock.tickAsync(0);
+    assert.strictEqual(spy.callCount, 1);
+    await clock.tickAsync(1000);
+    assert.strictEqual(spy.callCount, 2);
+    await clock.tickAsync(1000);
+    assert.strictEqual(spy.callCount, 3);
+    await clock.tickAsync(1);
+    await rejected;
+  });
+
+  it('leaves the queue when the call is cancelled', async () => {
+    const spy = sinon.spy(
+      (argument: {}, metadata: {}, options: {}, callback: APICallback) => {
+        callback(null, argument);
+      },
+    );
+    const rateLimiter = new RateLimiter({requestsPerSecond: 1});
+    const apiCall = utils.createApiCall(spy, {settings: {rateLimiter}});
+    await apiCall({});
+    const promise = apiCall({});
+    await clock.tickAsync(0);
+    assert.strictEqual(rateLimiter.queueLength, 1);
+    promise.cancel();
+    await assert.rejects(promise, (err: GoogleError) => {
+      assert.strictEqual(err.code, Status.CANCELLED);
+      return true;
+    });
+    assert.strictEqual(rateLimiter.queueLength, 0);
+    assert.strictEqual(spy.callCount, 1);
+  });
+
+  it('adapts its rate to the quota failures of the calls', async () => {
+    const spy = sinon.spy(
+      (argument: {}, metadata: {}, options: {}, callback: APICallback) => {
+        const error = new GoogleError('Quota exceeded');
+        error.code = Status.RESOURCE_EXHAUSTED;
+        error.quotaViolations = [{subject: 'project:123'}];
+        callback(error);
+      },
+    );
+    const rateLimiter = new AdaptiveRateLimiter({requestsPerSecond: 4});
+    const apiCall = utils.createApiCall(spy, {settings: {rateLimiter}});
+    await assert.rejects(apiCall({}), /Quota exceeded/);
+    assert.strictEqual(rateLimiter.requestsPerSecond, 2);
+  });
+
+  const clients = {grpc: GrpcClient, fallback: FallbackGrpcClient};
+  for (const [transport, Client] of Object.entries(clients)) {
+    it(`is set on all the methods by the ${transport} GrpcClient`, () => {
+      const rateLimiter = new RateLimiter({requestsPerSecond: 10});
+      const grpcClient = new Client({rateLimiter});
+      const settings = grpcClient.constructSettings(
+        'SampleApi',
+        {interfaces: {SampleApi: {methods: {SampleMethod: {}}}}},
+        {},
+        {},
+      );
+      assert.strictEqual(settings.sampleMethod.rateLimiter, rateLimiter);
+    });
+  }
+});
@@ -23,7 +23,7 @@ import * as stream from 'stream';
 import echoProtoJson = require('../fixtures/echo.json');
 import {GrpcClient} from '../../src/fallback';
 import * as transcoding from '../../src/transcoding';
-import {PassThroughClient} from 'google-auth-library';
+import {OAuth2Client, PassThroughClient} from 'google-auth-library';
 import {StreamArrayParser} from '../../src/streamArrayParser';
 import {setMockFallbackResponse} from './utils';
 
@@ -185,6 +185,34 @@ describe('REGAPIC', () => {
     });
   });
 
+  it('should send the requests with the given fetch', done => {
+    const requestObject = {content: 'test-content'};
+    const authClient = new OAuth2Client();
+    authClient.setCredentials({access_token: 'fake-token'});
+    const fetchImplementation = sinon
+      .stub<Parameters<typeof fetch>, Promise<Response>>()
+      .resolves(new Response(Buffer.from(JSON.stringify(requestObject))));
+    const gaxGrpc = new GrpcClient({authClient, fetchImplementation});
+    void gaxGrpc.createStub(echoService, stubOptions).then(echoStub => {
+      echoStub.echo(requestObject, {}, {}, (err?: {}, result?: {}) => {
+        try {
+          assert.strictEqual(err, null);
+          assert.deepStrictEqual(result, requestObject);
+          assert.strictEqual(fetchImplementation.callCount, 1);
+          const [url, init] = fetchImplementation.firstCall.args;
+          assert.match(url.toString(), /^https:\/\/foo.example.com/);
+          assert.strictEqual(
+            new Headers(init!.headers).get('authorization'),
+            'Bearer fake-token',
+          );
+          done();
+        } catch (err) {
+          done(err);
+        }
+      });
+    });
+  });
+
   describe('should support enum conversion in proto message', () => {
     it('should support enum conversion in proto message response', done => {
       const requestObject = {name: 'shelves/shelf-name'};
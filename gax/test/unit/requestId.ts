@@ -0,0 +1,252 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from 'assert';
+import * as sinon from 'sinon';
+import {describe, it} from 'mocha';
+import {PassThrough} from 'stream';
+
+import {APICallback, GaxCallStream, GRPCCall} from '../../src/apitypes';
+import {createApiCall} from '../../src/createApiCall';
+import {CallSettings} from '../../src/gax';
+import {GoogleError} from '../../src/googleError';
+import {Status} from '../../src/status';
+import {GrpcClient, Metadata} from '../../src/grpc';
+import {GrpcClient as FallbackGrpcClient} from '../../src/fallback';
+import {applyRequestId} from '../../src/requestId';
+import {StreamDescriptor} from '../../src/streamingCalls/streamDescriptor';
+import {StreamType} from '../../src/streamingCalls/streaming';
+import * as utils from './utils';
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+describe('createApiCall with a request ID', () => {
+  const otherArgs = {
+    metadataBuilder: (abTests: {}, headers: {}) => headers,
+  };
+
+  it('sends the same ID with each attempt', async () => {
+    const headers: Array<{[name: string]: string}> = [];
+    const spy = sinon.spy(
+      (
+        argument: {},
+        metadata: {[name: string]: string},
+        options: {},
+        callback: APICallback,
+      ) => {
+        headers.push(metadata);
+        if (headers.length < 3) {
+          utils.fail(argument, metadata, options, callback);
+        } else {
+          callback(null, 42);
+        }
+      },
+    );
+    const apiCall = utils.createApiCall(spy, {
+      settings: {
+        otherArgs,
+        retry: utils.createRetryOptions(0, 0, 0, 0, 0, 0, 100),
+        requestId: {},
+      },
+    });
+    const [response] = await apiCall({});
+    assert.strictEqual(response, 42);
+    const requestId = headers[0]['x-goog-request-id'];
+    assert.match(requestId, UUID_REGEX);
+    assert.deepStrictEqual(headers, [
+      {'x-goog-request-id': requestId, 'x-goog-request-attempt': '1'},
+      {'x-goog-request-id': requestId, 'x-goog-request-attempt': '2'},
+      {'x-goog-request-id': requestId, 'x-goog-request-attempt': '3'},
+    ]);
+
+    // each call has its own ID
+    headers.splice(0);
+    await apiCall({});
+    assert.notStrictEqual(headers[0]['x-goog-request-id'], requestId);
+  });
+
+  it('sets the ID on the errors and the hooks of the call', async () => {
+    let sentId: string | undefined;
+    const apiCall = utils.createApiCall(
+      (
+        argument: {},
+        metadata: {[name: string]: string},
+        options: {},
+        callback: APICallback,
+      ) => {
+        sentId = metadata['x-call-id'];
+        utils.fail(argument, metadata, options, callback);
+      },
+      {settings: {otherArgs, requestId: {requestIdHeader: 'x-call-id'}}},
+    );
+    const onCallFinish = sinon.spy();
+    await assert.rejects(
+      apiCall({}, {hooks: {onCallFinish}}),
+      (err: GoogleError) => {
+        assert.match(err.requestId!, UUID_REGEX);
+        assert.strictEqual(err.requestId, sentId);
+        return true;
+      },
+    );
+    assert.strictEqual(onCallFinish.firstCall.args[0].requestId, sentId);
+  });
+
+  it('is not sent when disabled for the call', async () => {
+    const spy = sinon.spy(
+      (argument: {}, metadata: {}, options: {}, callback: APICallback) => {
+        callback(null, metadata);
+      },
+    );
+    const apiCall = utils.createApiCall(spy, {
+      settings: {otherArgs, requestId: {}},
+    });
+    const [response] = await apiCall({}, {requestId: null});
+    assert.deepStrictEqual(response, {});
+  });
+});
+
+describe('streaming calls with a request ID', () => {
+  // Creates a server streaming call whose attempts fail with the given codes,
+  // then succeed.
+  function createStreamingCall(
+    headers: Array<{[name: string]: string}>,
+    codes: number[],
+  ) {
+    const spy = sinon.spy(
+      (argument: {}, metadata: {[name: string]: string}) => {
+        headers.push(metadata);
+        const code = codes[headers.length - 1];
+        const stream = new PassThrough({objectMode: true});
+        setImmediate(() => {
+          if (code !== undefined) {
+            stream.emit(
+              'error',
+              Object.assign(new GoogleError('failed'), {code}),
+            );
+          } else {
+            stream.push({response: 42});
+            stream.emit('status');
+            stream.emit('end');
+          }
+        });
+        return stream;
+      },
+    );
+    const settings = new CallSettings({
+      otherArgs: {metadataBuilder: (abTests: {}, headers: {}) => headers},
+      retry: utils.createRetryOptions(0, 1, 0, 1000, 1, 1000, 10000),
+      requestId: {},
+    });
+    return createApiCall(
+      Promise.resolve(spy as unknown as GRPCCall),
+      settings,
+      new StreamDescriptor(StreamType.SERVER_STREAMING, false, true),
+    ) as GaxCallStream;
+  }
+
+  it('sends the same ID with each retry of a server stream', done => {
+    const headers: Array<{[name: string]: string}> = [];
+    const apiCall = createStreamingCall(headers, [
+      utils.FAKE_STATUS_CODE_1,
+      utils.FAKE_STATUS_CODE_1,
+    ]);
+    const responses: Array<{}> = [];
+    apiCall({})
+      .on('data', response => responses.push(response))
+      .on('error', done)
+      .on('end', () => {
+        try {
+          assert.deepStrictEqual(responses, [{response: 42}]);
+          const requestId = headers[0]['x-goog-request-id'];
+          assert.match(requestId, UUID_REGEX);
+          assert.deepStrictEqual(headers, [
+            {'x-goog-request-id': requestId, 'x-goog-request-attempt': '1'},
+            {'x-goog-request-id': requestId, 'x-goog-request-attempt': '2'},
+            {'x-goog-request-id': requestId, 'x-goog-request-attempt': '3'},
+          ]);
+          done();
+        } catch (err) {
+          done(err);
+        }
+      });
+  });
+
+  it('sets the ID on the errors of the stream', done => {
+    const headers: Array<{[name: string]: string}> = [];
+    const apiCall = createStreamingCall(headers, [
+      utils.FAKE_STATUS_CODE_1,
+      Status.NOT_FOUND,
+    ]);
+    apiCall({}).on('error', (err: GoogleError) => {
+      try {
+        assert.strictEqual(err.code, Status.NOT_FOUND);
+        assert.strictEqual(err.requestId, headers[1]['x-goog-request-id']);
+        assert.strictEqual(headers[1]['x-goog-request-attempt'], '2');
+        done();
+      } catch (error) {
+        done(error);
+      }
+    });
+  });
+});
+
+describe('GrpcClient.constructSettings with a request ID', () => {
+  const clientConfig = {
+    interfaces: {SampleApi: {methods: {SampleMethod: {}}}},
+  };
+
+  it('sends the request ID in the gRPC metadata', () => {
+    const grpcClient = new GrpcClient();
+    const settings = grpcClient.constructSettings(
+      'SampleApi',
+      clientConfig,
+      {},
+      {},
+      {requestId: {attemptHeader: 'x-attempt'}},
+    );
+    const callSettings = applyRequestId(settings.sampleMethod, 'id');
+    const metadata = callSettings.otherArgs.metadataBuilder() as Metadata;
+    assert.deepStrictEqual(metadata.get('x-goog-request-id'), ['id']);
+    assert.deepStrictEqual(metadata.get('x-attempt'), ['1']);
+  });
+
+  it('sends the request ID in the fallback headers', () => {
+    const grpcClient = new FallbackGrpcClient();
+    const settings = grpcClient.constructSettings(
+      'SampleApi',
+      clientConfig,
+      {},
+      {},
+      {requestId: true},
+    );
+    const callSettings = applyRequestId(settings.sampleMethod, 'id');
+    const headers = callSettings.otherArgs.metadataBuilder();
+    assert.deepStrictEqual(headers['x-goog-request-id'], ['id']);
+    assert.deepStrictEqual(headers['x-goog-request-attempt'], ['1']);
+  });
+
+  it('does not send a request ID by default', () => {
+    const grpcClient = new GrpcClient();
+    const settings = grpcClient.constructSettings(
+      'SampleApi',
+      clientConfig,
+      {},
+      {},
+    );
+    assert.strictEqual(settings.sampleMethod.requestId, undefined);
+  });
+});
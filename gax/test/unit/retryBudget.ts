@@ -0,0 +1,178 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/* eslint-disable @typescript-eslint/ban-ts-comment */
+
+import assert from 'assert';
+import * as sinon from 'sinon';
+import {afterEach, describe, it} from 'mocha';
+import {PassThrough} from 'stream';
+
+import {GaxCallStream} from '../../src/apitypes';
+import {createApiCall as realCreateApiCall} from '../../src/createApiCall';
+import * as gax from '../../src/gax';
+import {GoogleError} from '../../src/googleError';
+import {GrpcClient} from '../../src/grpc';
+import {RetryBudget} from '../../src/retryBudget';
+import {StreamDescriptor} from '../../src/streamingCalls/streamDescriptor';
+import {StreamType} from '../../src/streamingCalls/streaming';
+import * as utils from './utils';
+
+const FAKE_STATUS_CODE_1 = utils.FAKE_STATUS_CODE_1;
+
+describe('RetryBudget', () => {
+  it('starts full', () => {
+    const budget = new RetryBudget({maxTokens: 3});
+    assert.strictEqual(budget.tokens, 3);
+    assert.strictEqual(budget.exhausted, false);
+  });
+
+  it('is spent by retries', () => {
+    const budget = new RetryBudget({maxTokens: 2});
+    assert.strictEqual(budget.tryAcquire(), true);
+    assert.strictEqual(budget.tryAcquire(), true);
+    assert.strictEqual(budget.exhausted, true);
+    assert.strictEqual(budget.tryAcquire(), false);
+    assert.strictEqual(budget.tokens, 0);
+  });
+
+  it('is refilled by successes up to its capacity', () => {
+    const budget = new RetryBudget({maxTokens: 1, tokenRatio: 0.5});
+    assert.strictEqual(budget.tryAcquire(), true);
+    budget.recordSuccess();
+    assert.strictEqual(budget.tryAcquire(), false);
+    budget.recordSuccess();
+    assert.strictEqual(budget.tokens, 1);
+    budget.recordSuccess();
+    assert.strictEqual(budget.tokens, 1);
+    assert.strictEqual(budget.tryAcquire(), true);
+  });
+
+  it('validates its options', () => {
+    assert.throws(() => new RetryBudget({maxTokens: 0}), /maxTokens/);
+    assert.throws(() => new RetryBudget({retryCost: -1}), /retryCost/);
+    assert.throws(() => new RetryBudget({tokenRatio: NaN}), /tokenRatio/);
+  });
+});
+
+describe('retryable with a retry budget', () => {
+  const retryOptions = utils.createRetryOptions(0, 0, 0, 0, 0, 0, 1000);
+
+  it('is shared by calls and stops retrying once exhausted', async () => {
+    const retryBudget = new RetryBudget({maxTokens: 2});
+    const spy = sinon.spy(utils.fail);
+    const apiCall = utils.createApiCall(spy, {
+      settings: {timeout: 0, retry: retryOptions, apiName: 'TestApi'},
+    });
+
+    await assert.rejects(apiCall({}, {retryBudget}), (err: GoogleError) => {
+      assert.strictEqual(err.code, FAKE_STATUS_CODE_1);
+      assert.match(err.message, /Retry budget of API TestApi exhausted/);
+      return true;
+    });
+    // first attempt + 2 retries paid by the budget
+    assert.strictEqual(spy.callCount, 3);
+
+    await assert.rejects(apiCall({}, {retryBudget}), /Retry budget/);
+    // the budget is empty: the second call fails after its first attempt
+    assert.strictEqual(spy.callCount, 4);
+  });
+
+  it('is refilled by successful calls', async () => {
+    const retryBudget = new RetryBudget({maxTokens: 1, tokenRatio: 1});
+    assert.strictEqual(retryBudget.tryAcquire(), true);
+    let toAttempt = 2;
+    const apiCall = utils.createApiCall(
+      (argument: {}, metadata: {}, options: {}, callback: Function) => {
+        if (--toAttempt > 0) {
+          utils.fail(argument, metadata, options, callback);
+          return;
+        }
+        callback(null, 42);
+      },
+      {settings: {timeout: 0, retry: retryOptions, retryBudget}},
+    );
+
+    await assert.rejects(apiCall({}), /Retry budget/);
+    const [response] = await apiCall({});
+    assert.strictEqual(response, 42);
+    assert.strictEqual(retryBudget.tokens, 1);
+  });
+
+  it('is set on all the methods by GrpcClient', () => {
+    const retryBudget = new RetryBudget();
+    const grpcClient = new GrpcClient({retryBudget});
+    const settings = grpcClient.constructSettings(
+      'SampleApi',
+      {
+        interfaces: {
+          SampleApi: {
+            methods: {PageStreamingMethod: {}, BundlingMethod: {}},
+          },
+        },
+      },
+      {},
+      {},
+    );
+    assert.strictEqual(settings.pageStreamingMethod.retryBudget, retryBudget);
+    assert.strictEqual(settings.bundlingMethod.retryBudget, retryBudget);
+    const merged = settings.bundlingMethod.merge({timeout: 100});
+    assert.strictEqual(merged.retryBudget, retryBudget);
+  });
+});
+
+describe('server streaming retries with a retry budget', () => {
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('fails without retrying once the budget is exhausted', done => {
+    const error = Object.assign(new GoogleError('UNAVAILABLE'), {code: 14});
+    const spy = sinon.spy(() => {
+      const s = new PassThrough({objectMode: true});
+      setImmediate(() => s.emit('error', error));
+      return s;
+    });
+    const apiCall = realCreateApiCall(
+      // @ts-ignore
+      Promise.resolve(spy),
+      new gax.CallSettings({retryBudget: new RetryBudget({maxTokens: 1})}),
+      new StreamDescriptor(StreamType.SERVER_STREAMING, false, true),
+    ) as GaxCallStream;
+
+    const s = apiCall(
+      {},
+      {
+        retry: gax.createRetryOptions([14], {
+          initialRetryDelayMillis: 1,
+          retryDelayMultiplier: 1,
+          maxRetryDelayMillis: 1,
+          maxRetries: 5,
+        }),
+      },
+    );
+    s.on('error', (err: GoogleError) => {
+      try {
+        assert.strictEqual(err.code, 14);
+        assert.match(err.message, /Retry budget exhausted/);
+        assert.strictEqual(spy.callCount, 2);
+        done();
+      } catch (e) {
+        done(e);
+      }
+    });
+  });
+});
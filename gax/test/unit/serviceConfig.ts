@@ -0,0 +1,281 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from 'assert';
+import * as sinon from 'sinon';
+import {describe, it} from 'mocha';
+import {PassThrough} from 'stream';
+
+import {
+  APICallback,
+  GaxCallPromise,
+  GaxCallStream,
+  GRPCCall,
+} from '../../src/apitypes';
+import {createApiCall} from '../../src/createApiCall';
+import * as gax from '../../src/gax';
+import {GoogleError} from '../../src/googleError';
+import {GrpcClient} from '../../src/grpc';
+import {
+  GrpcServiceConfig,
+  validateServiceConfig,
+} from '../../src/serviceConfig';
+import {Status} from '../../src/status';
+import {StreamDescriptor} from '../../src/streamingCalls/streamDescriptor';
+import {StreamType} from '../../src/streamingCalls/streaming';
+
+const SERVICE_NAME = 'google.example.v1.Library';
+
+const CLIENT_CONFIG: gax.ClientConfig = {
+  interfaces: {
+    [SERVICE_NAME]: {
+      retry_codes: {idempotent: ['UNAVAILABLE']},
+      retry_params: {
+        default: {
+          initial_retry_delay_millis: 100,
+          retry_delay_multiplier: 1.3,
+          max_retry_delay_millis: 60000,
+          initial_rpc_timeout_millis: 60000,
+          rpc_timeout_multiplier: 1,
+          max_rpc_timeout_millis: 60000,
+          total_timeout_millis: 600000,
+        },
+      },
+      methods: {
+        GetBook: {
+          timeout_millis: 60000,
+          retry_codes_name: 'idempotent',
+          retry_params_name: 'default',
+        },
+        ListBooks: {timeout_millis: 60000},
+        CreateBook: {timeout_millis: 60000},
+      },
+    },
+  },
+};
+
+const SERVICE_CONFIG: GrpcServiceConfig = {
+  methodConfig: [
+    {
+      name: [{service: SERVICE_NAME}],
+      timeout: '10s',
+      retryPolicy: {
+        maxAttempts: 5,
+        initialBackoff: '0.1s',
+        maxBackoff: '5s',
+        backoffMultiplier: 2,
+        retryableStatusCodes: ['UNAVAILABLE', 'DEADLINE_EXCEEDED'],
+      },
+    },
+    {
+      name: [{service: SERVICE_NAME, method: 'ListBooks'}],
+      hedgingPolicy: {
+        maxAttempts: 3,
+        hedgingDelay: '0.25s',
+        nonFatalStatusCodes: [Status.UNAVAILABLE],
+      },
+    },
+    {
+      name: [{service: SERVICE_NAME, method: 'CreateBook'}],
+      timeout: '1.5s',
+    },
+  ],
+};
+
+describe('gRPC service config', () => {
+  it('sets the retry, timeout and hedging of the methods', () => {
+    const settings = gax.constructSettings(
+      SERVICE_NAME,
+      CLIENT_CONFIG,
+      SERVICE_CONFIG,
+      Status,
+    );
+
+    const getBook = settings.getBook as gax.CallSettings;
+    assert.strictEqual(getBook.timeout, 10000);
+    assert.deepStrictEqual(getBook.retry!.retryCodes, [
+      Status.UNAVAILABLE,
+      Status.DEADLINE_EXCEEDED,
+    ]);
+    assert.deepStrictEqual(getBook.retry!.backoffSettings, {
+      initialRetryDelayMillis: 100,
+      retryDelayMultiplier: 2,
+      maxRetryDelayMillis: 5000,
+      initialRpcTimeoutMillis: 10000,
+      rpcTimeoutMultiplier: 1,
+      maxRpcTimeoutMillis: 10000,
+      maxRetries: 5,
+      maxAttempts: 5,
+    });
+
+    // the most specific entry applies, without the retries of the service
+    const listBooks = settings.listBooks as gax.CallSettings;
+    assert.strictEqual(listBooks.timeout, 60000);
+    assert.strictEqual(listBooks.retry!.retryCodes, null);
+    assert.deepStrictEqual(listBooks.hedging, {
+      maxAttempts: 3,
+      hedgingDelayMillis: 250,
+      nonFatalCodes: [Status.UNAVAILABLE],
+    });
+
+    const createBook = settings.createBook as gax.CallSettings;
+    assert.strictEqual(createBook.timeout, 1500);
+    assert.strictEqual(createBook.retry!.retryCodes, null);
+  });
+
+  it('keeps the max attempts when merged with call options', () => {
+    const settings = gax.constructSettings(
+      SERVICE_NAME,
+      CLIENT_CONFIG,
+      SERVICE_CONFIG,
+      Status,
+    );
+    const merged = (settings.getBook as gax.CallSettings).merge({});
+    const backoffSettings = merged.retry!.backoffSettings;
+    assert.strictEqual(backoffSettings.maxRetries, 5);
+    assert.strictEqual(backoffSettings.maxAttempts, 5);
+    assert.strictEqual(backoffSettings.totalTimeoutMillis, undefined);
+
+    // maxRetries given at call time replaces the max attempts
+    const overridden = (settings.getBook as gax.CallSettings).merge({
+      maxRetries: 2,
+    });
+    assert.strictEqual(
+      overridden.retry!.backoffSettings.maxAttempts,
+      undefined,
+    );
+  });
+
+  describe('makes maxAttempts attempts', () => {
+    const settings = gax.constructSettings(
+      SERVICE_NAME,
+      CLIENT_CONFIG,
+      {
+        methodConfig: [
+          {
+            name: [{service: SERVICE_NAME}],
+            retryPolicy: {
+              maxAttempts: 3,
+              initialBackoff: '0.001s',
+              maxBackoff: '0.001s',
+              backoffMultiplier: 1,
+              retryableStatusCodes: ['UNAVAILABLE'],
+            },
+          },
+        ],
+      },
+      Status,
+    );
+    const unavailable = () =>
+      Object.assign(new GoogleError('UNAVAILABLE'), {
+        code: Status.UNAVAILABLE,
+      });
+
+    it('in unary calls', async () => {
+      const spy = sinon.spy(
+        (argument: {}, metadata: {}, options: {}, callback: APICallback) => {
+          callback(unavailable());
+        },
+      );
+      const apiCall = createApiCall(
+        spy as unknown as GRPCCall,
+        settings.getBook as gax.CallSettings,
+      ) as GaxCallPromise;
+      await assert.rejects(apiCall({}), /Exceeded maximum number of retries/);
+      assert.strictEqual(spy.callCount, 3);
+    });
+
+    it('in streaming calls', done => {
+      const spy = sinon.spy(() => {
+        const stream = new PassThrough({objectMode: true});
+        setImmediate(() => stream.emit('error', unavailable()));
+        return stream;
+      });
+      const apiCall = createApiCall(
+        Promise.resolve(spy as unknown as GRPCCall),
+        settings.listBooks as gax.CallSettings,
+        new StreamDescriptor(StreamType.SERVER_STREAMING, false, true),
+      ) as GaxCallStream;
+      apiCall({}).on('error', (err: GoogleError) => {
+        try {
+          assert.match(err.message, /Exceeded maximum number of retries/);
+          assert.strictEqual(spy.callCount, 3);
+          done();
+        } catch (error) {
+          done(error);
+        }
+      });
+    });
+  });
+
+  it('is accepted by GrpcClient.constructSettings', () => {
+    const grpcClient = new GrpcClient();
+    const settings = grpcClient.constructSettings(
+      SERVICE_NAME,
+      CLIENT_CONFIG,
+      {methodConfig: [{name: [{}], timeout: '2s'}]},
+      {},
+    );
+    assert.strictEqual(settings.getBook.timeout, 2000);
+    assert.strictEqual(settings.listBooks.timeout, 2000);
+  });
+
+  it('reports the problems of invalid configs', () => {
+    const config = {
+      methodConfig: [
+        {
+          name: [{method: 'GetBook'}],
+          timeout: '10',
+          retryPolicy: {
+            maxAttempts: 1,
+            initialBackoff: '0s',
+            maxBackoff: '1s',
+            backoffMultiplier: 2,
+            retryableStatusCodes: ['UNAVAILABLE', 'SOMETIMES'],
+          },
+          hedgingPolicy: {maxAttempts: 2},
+        },
+        {name: [{}, {}]},
+      ],
+    };
+    assert.deepStrictEqual(validateServiceConfig(config), [
+      'methodConfig[0].name[0] has a method but no service',
+      'methodConfig[0].timeout should be a duration, e.g. "30s"',
+      'methodConfig[0] cannot have both a retryPolicy and a hedgingPolicy',
+      'methodConfig[0].retryPolicy.maxAttempts should be an integer greater than 1',
+      'methodConfig[0].retryPolicy.initialBackoff should be a positive duration, e.g. "1s"',
+      'methodConfig[0].retryPolicy.retryableStatusCodes[1] is not a status code: SOMETIMES',
+      'methodConfig[1].name[1] is a duplicate name: /',
+    ]);
+    assert.deepStrictEqual(validateServiceConfig({methodConfig: {}}), [
+      'methodConfig should be an array',
+    ]);
+    assert.deepStrictEqual(validateServiceConfig(SERVICE_CONFIG), []);
+  });
+
+  it('fails to construct settings from an invalid config', () => {
+    assert.throws(
+      () =>
+        gax.constructSettings(
+          SERVICE_NAME,
+          CLIENT_CONFIG,
+          {methodConfig: [{name: [{}], timeout: 'soon'}]},
+          Status,
+        ),
+      /Invalid gRPC service config: methodConfig\[0\].timeout should be a duration/,
+    );
+  });
+});
@@ -38,7 +38,7 @@ import internal = require('stream');
 import {StreamArrayParser} from '../../src/streamArrayParser';
 import path = require('path');
 import protobuf = require('protobufjs');
-import {GoogleError} from '../../src';
+import {GoogleError, Status} from '../../src';
 import {Metadata} from '@grpc/grpc-js';
 
 function createApiCallStreaming(
@@ -363,6 +363,52 @@ describe('streaming', () => {
     });
   });
 
+  it('cancels the stream when the signal is aborted', done => {
+    const cancel = sinon.spy();
+    function func() {
+      const s = new PassThrough({
+        objectMode: true,
+      }) as unknown as CancellableStream;
+      s.cancel = () => {
+        cancel();
+        s.emit('error', new Error('cancelled'));
+      };
+      return s;
+    }
+    const apiCall = createApiCallStreaming(
+      //@ts-ignore
+      func,
+      streaming.StreamType.BIDI_STREAMING,
+    );
+    const controller = new AbortController();
+    const s = apiCall({}, {signal: controller.signal});
+    const errors: GoogleError[] = [];
+    s.on('error', (err: GoogleError) => errors.push(err));
+    s.on('close', () => {
+      assert.strictEqual(cancel.callCount, 1);
+      assert.strictEqual(errors.length, 1);
+      assert.strictEqual(errors[0].code, Status.CANCELLED);
+      assert.strictEqual(errors[0].cause, 'stop');
+      done();
+    });
+    s.write({});
+    setImmediate(() => controller.abort('stop'));
+  });
+
+  it('does not send the call when the signal is already aborted', done => {
+    const spy = sinon.spy(() => new PassThrough({objectMode: true}));
+    const apiCall = createApiCallStreaming(
+      spy,
+      streaming.StreamType.SERVER_STREAMING,
+    );
+    const s = apiCall({}, {signal: AbortSignal.abort()});
+    s.on('error', (err: GoogleError) => {
+      assert.strictEqual(err.code, Status.CANCELLED);
+      assert.strictEqual(spy.callCount, 0);
+      done();
+    });
+  });
+
   it('emit response when stream received metadata event', done => {
     const responseMetadata = {metadata: true};
     const expectedStatus = {code: 0, metadata: responseMetadata};
@@ -1742,6 +1788,66 @@ describe('handles server streaming retries in gax when gaxStreamingRetries is en
     });
   });
 
+  it('attaches the failed attempts to the error of exhausted retries', done => {
+    const spy = sinon.spy(() => {
+      const s = new PassThrough({
+        objectMode: true,
+      });
+      setImmediate(() => {
+        s.emit(
+          'error',
+          Object.assign(new GoogleError('UNAVAILABLE'), {
+            code: 14,
+            metadata: new Metadata(),
+          }),
+        );
+      });
+      return s;
+    });
+
+    const apiCall = createApiCallStreaming(
+      spy,
+      streaming.StreamType.SERVER_STREAMING,
+      false,
+      true,
+    );
+
+    const call = apiCall(
+      {},
+      {
+        retry: gax.createRetryOptions([14], {
+          initialRetryDelayMillis: 10,
+          retryDelayMultiplier: 1,
+          maxRetryDelayMillis: 10,
+          rpcTimeoutMultiplier: 1,
+          maxRpcTimeoutMillis: 3000,
+          maxRetries: 2,
+        }),
+      },
+    );
+
+    call.on('error', err => {
+      try {
+        assert(err instanceof GoogleError);
+        assert.strictEqual(err.code, 4);
+        const attempts = err.attempts!;
+        assert.deepStrictEqual(
+          attempts.map(attempt => [attempt.attempt, attempt.code]),
+          [
+            [1, 14],
+            [2, 14],
+            [3, 14],
+          ],
+        );
+        assert.ok(err.cause instanceof AggregateError);
+        assert.strictEqual(err.cause.errors[2], attempts[2].error);
+        done();
+      } catch (error: unknown) {
+        done(error);
+      }
+    });
+  });
+
   it('does not retry when there is no shouldRetryFn and retryCodes is an empty array', done => {
     // we don't call the timeout/max retry check on non retryable error codes
     const retrySpy = sinon.spy(
@@ -2508,6 +2614,56 @@ describe('handles server streaming retries in gax when gaxStreamingRetries is en
       ),
     );
   });
+
+  it('calls the hooks of the call for each attempt', done => {
+    const error = Object.assign(new GoogleError('UNAVAILABLE'), {code: 14});
+    let counter = 0;
+    const spy = sinon.spy(() => {
+      const s = new PassThrough({objectMode: true});
+      if (counter++ === 0) {
+        setImmediate(() => s.emit('error', error));
+      } else {
+        setImmediate(() => s.emit('status'));
+        setImmediate(() => s.end());
+      }
+      return s;
+    });
+    const apiCall = createApiCallStreaming(
+      spy,
+      streaming.StreamType.SERVER_STREAMING,
+      false,
+      true, // gaxStreamingRetries
+    );
+    const events: Array<{}> = [];
+    const s = apiCall(
+      {},
+      {
+        retry: gax.createRetryOptions([14], {
+          initialRetryDelayMillis: 1,
+          retryDelayMultiplier: 1,
+          maxRetryDelayMillis: 1,
+          maxRetries: 2,
+          jitter: 'none',
+        }),
+        hooks: {
+          onAttemptStart: event => events.push(['start', event]),
+          onAttemptFailure: event =>
+            events.push(['failure', event.attempt, event.delayMillis]),
+          onCallFinish: event => events.push(['finish', event]),
+        },
+      },
+    );
+    s.on('data', () => {});
+    s.on('end', () => {
+      assert.deepStrictEqual(events, [
+        ['start', {attempt: 1}],
+        ['failure', 1, 1],
+        ['start', {attempt: 2}],
+        ['finish', {attempts: 2, error: null}],
+      ]);
+      done();
+    });
+  });
 });
 
 describe('warns/errors about server streaming retry behavior when gaxStreamingRetries is disabled', () => {
@@ -0,0 +1,329 @@
+/**
+ * Copyright 2026 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import assert from 'assert';
+import {describe, it} from 'mocha';
+
+import {APICallback} from '../../src/apitypes';
+import {CallSettings, createBackoffSettings} from '../../src/gax';
+import {GrpcClient} from '../../src/grpc';
+import {GrpcClient as FallbackGrpcClient} from '../../src/fallback';
+import {Operation} from '../../src/longRunningCalls/longrunning';
+import {
+  AnyDecoder,
+  LongRunningDescriptor,
+} from '../../src/longRunningCalls/longRunningDescriptor';
+import {OperationsClient} from '../../src/operationsClient';
+import {PageDescriptor} from '../../src/paginationCalls/pageDescriptor';
+import {Status} from '../../src/status';
+import {
+  CallTracer,
+  OpenTelemetryApi,
+  Span,
+  SpanAttributeValue,
+} from '../../src/tracing';
+import * as utils from './utils';
+
+class RecordedSpan implements Span {
+  attributes: {[key: string]: SpanAttributeValue};
+  status?: {code: number; message?: string};
+  exceptions: Error[] = [];
+  ended = false;
+
+  constructor(
+    readonly name: string,
+    attributes: {[key: string]: SpanAttributeValue} = {},
+    readonly parent?: RecordedSpan,
+  ) {
+    this.attributes = {...attributes};
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue) {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  setStatus(status: {code: number; message?: string}) {
+    this.status = status;
+    return this;
+  }
+
+  recordException(exception: Error) {
+    this.exceptions.push(exception);
+  }
+
+  end() {
+    assert.strictEqual(this.ended, false);
+    this.ended = true;
+  }
+}
+
+// Records the spans, with contexts holding their span and a propagator
+// sending the name of the span.
+function recordingApi() {
+  const spans: RecordedSpan[] = [];
+  const api: OpenTelemetryApi = {
+    trace: {
+      getTracer: () => ({
+        startSpan: (name, options, context) => {
+          const span = new RecordedSpan(
+            name,
+            options?.attributes,
+            (context as {span?: RecordedSpan}).span,
+          );
+          spans.push(span);
+          return span;
+        },
+      }),
+      setSpan: (context, span) => ({span}),
+    },
+    context: {active: () => ({})},
+    propagation: {
+      inject: (context, carrier) => {
+        carrier['x-span'] = (context as {span: RecordedSpan}).span.name;
+      },
+    },
+  };
+  return {api, spans};
+}
+
+const otherArgs = {
+  metadataBuilder: (abTests?: {}, headers?: {}) => ({...headers}),
+};
+
+const settings = {
+  apiName: 'google.example.v1.Library',
+  methodName: 'GetBook',
+  otherArgs,
+};
+
+describe('CallTracer', () => {
+  it('does nothing without @opentelemetry/api', function () {
+    try {
+      require.resolve('@opentelemetry/api');
+      this.skip();
+    } catch (err) {
+      // not installed
+    }
+    const tracer = new CallTracer();
+    assert.strictEqual(tracer.enabled, false);
+    assert.strictEqual(tracer.startCall(new CallSettings(settings)), undefined);
+  });
+
+  it('traces a call and each of its attempts', async () => {
+    const {api, spans} = recordingApi();
+    const sent: Array<{[key: string]: string}> = [];
+    let toFail = 2;
+    const func = (
+      argument: {},
+      metadata: {[key: string]: string},
+      options: {},
+      callback: APICallback,
+    ) => {
+      sent.push(metadata);
+      if (toFail-- > 0) {
+        utils.fail(argument, metadata, options, callback);
+      } else {
+        callback(null, {name: 'books/1'});
+      }
+    };
+    const retry = utils.createRetryOptions(0, 1, 0, 100, 1, 100);
+    retry.backoffSettings.maxRetries = 3;
+    const apiCall = utils.createApiCall(func, {
+      settings: {...settings, retry, tracer: new CallTracer({api})},
+    });
+    await apiCall({});
+
+    const [call, ...attempts] = spans;
+    assert.strictEqual(call.name, 'google.example.v1.Library/GetBook');
+    assert.deepStrictEqual(call.attributes, {
+      'rpc.system': 'grpc',
+      'rpc.service': 'google.example.v1.Library',
+      'rpc.method': 'GetBook',
+      'gax.retry_count': 2,
+      'rpc.grpc.status_code': Status.OK,
+    });
+    assert.strictEqual(call.status, undefined);
+    assert.strictEqual(call.ended, true);
+
+    assert.strictEqual(attempts.length, 3);
+    attempts.forEach((attempt, i) => {
+      assert.strictEqual(attempt.parent, call);
+      assert.strictEqual(attempt.attributes['gax.attempt'], i + 1);
+      assert.strictEqual(attempt.ended, true);
+      assert.strictEqual(sent[i]['x-span'], attempt.name);
+    });
+    assert.strictEqual(
+      attempts[0].attributes['rpc.grpc.status_code'],
+      utils.FAKE_STATUS_CODE_1,
+    );
+    assert.strictEqual(attempts[0].status!.code, 2);
+    assert.strictEqual(attempts[0].exceptions.length, 1);
+    assert.strictEqual(attempts[2].attributes['rpc.grpc.status_code'], 0);
+  });
+
+  it('records the error of a failed call', async () => {
+    const {api, spans} = recordingApi();
+    const apiCall = utils.createApiCall(utils.fail, {
+      settings: {...settings, tracer: new CallTracer({api}, 'http')},
+    });
+    await assert.rejects(apiCall({}));
+    const [call, attempt] = spans;
+    assert.strictEqual(call.attributes['rpc.system'], 'http');
+    assert.strictEqual(
+      call.attributes['rpc.grpc.status_code'],
+      utils.FAKE_STATUS_CODE_1,
+    );
+    assert.strictEqual(call.status!.code, 2);
+    assert.strictEqual(attempt.status!.code, 2);
+    assert.ok(call.ended && attempt.ended);
+  });
+
+  it('records the error of a failed stream', done => {
+    const {api, spans} = recordingApi();
+    const apiCall = utils.createFailingStreamCall({
+      ...settings,
+      tracer: new CallTracer({api}, 'grpc'),
+    });
+    apiCall({}).on('error', () => {
+      setImmediate(() => {
+        const [call] = spans;
+        assert.strictEqual(
+          call.attributes['rpc.grpc.status_code'],
+          Status.NOT_FOUND,
+        );
+        assert.strictEqual(call.status!.code, 2);
+        assert.ok(call.ended);
+        done();
+      });
+    });
+  });
+
+  it('numbers the pages of a paged call', async () => {
+    const {api, spans} = recordingApi();
+    const func = (
+      request: {pageToken?: number},
+      metadata: {},
+      options: {},
+      callback: APICallback,
+    ) => {
+      const pageToken = request.pageToken || 0;
+      callback(null, {
+        nums: [pageToken],
+        nextPageToken: pageToken < 2 ? pageToken + 1 : undefined,
+      });
+    };
+    const apiCall = utils.createApiCall(func, {
+      settings: {...settings, tracer: new CallTracer({api})},
+      descriptor: new PageDescriptor('pageToken', 'nextPageToken', 'nums'),
+    });
+    const [nums] = await apiCall({});
+    assert.deepStrictEqual(nums, [0, 1, 2]);
+    const [call, ...pages] = spans;
+    assert.strictEqual(call.ended, true);
+    assert.deepStrictEqual(
+      pages.map(page => page.attributes['gax.page_number']),
+      [1, 2, 3],
+    );
+  });
+
+  it('traces the polls of a long-running operation', async () => {
+    const {api, spans} = recordingApi();
+    const pending = {name: 'operations/1', done: false};
+    let polls = 0;
+    const operationsClient = {
+      getOperationInternal: () => {
+        const done = ++polls === 2;
+        const promise = Promise.resolve([{...pending, done, response: {}}]);
+        return Object.assign(promise, {cancel() {}});
+      },
+    };
+    const decoder = (() => ({})) as unknown as AnyDecoder;
+    const apiCall = utils.createApiCall(
+      (argument: {}, metadata: {}, options: {}, callback: APICallback) =>
+        callback(null, pending),
+      {
+        settings: {
+          ...settings,
+          tracer: new CallTracer({api}),
+          longrunning: createBackoffSettings(1, 1, 1, 0, 0, 0, 1000),
+        },
+        descriptor: new LongRunningDescriptor(
+          operationsClient as unknown as OperationsClient,
+          decoder,
+          decoder,
+        ),
+      },
+    );
+    const [operation] = await apiCall({});
+    const [call, attempt] = spans;
+    assert.strictEqual(call.attributes['gax.operation_name'], 'operations/1');
+    assert.strictEqual(attempt.parent, call);
+    assert.ok(call.ended && attempt.ended);
+
+    await (operation as Operation).promise();
+    const [, , operationSpan, ...pollSpans] = spans;
+    assert.strictEqual(operationSpan.name, `${call.name} operation`);
+    assert.strictEqual(operationSpan.parent, undefined);
+    assert.strictEqual(
+      operationSpan.attributes['gax.operation_name'],
+      'operations/1',
+    );
+    assert.strictEqual(operationSpan.attributes['rpc.grpc.status_code'], 0);
+    assert.strictEqual(operationSpan.ended, true);
+    assert.strictEqual(pollSpans.length, 2);
+    pollSpans.forEach((poll, i) => {
+      assert.strictEqual(poll.name, `${call.name} poll`);
+      assert.strictEqual(poll.parent, operationSpan);
+      assert.strictEqual(poll.attributes['gax.attempt'], i + 1);
+      assert.strictEqual(poll.attributes['gax.operation_name'], 'operations/1');
+      assert.strictEqual(poll.ended, true);
+    });
+  });
+
+  it('is not used for calls with a null tracer', async () => {
+    const {api, spans} = recordingApi();
+    const apiCall = utils.createApiCall(
+      (argument: {}, metadata: {}, options: {}, callback: APICallback) =>
+        callback(null, {}),
+      {settings: {...settings, tracer: new CallTracer({api})}},
+    );
+    await apiCall({}, {tracer: null});
+    assert.strictEqual(spans.length, 0);
+  });
+
+  const clients = {grpc: GrpcClient, fallback: FallbackGrpcClient};
+  const rpcSystems = {grpc: 'grpc', fallback: 'http'};
+  for (const [transport, Client] of Object.entries(clients)) {
+    it(`is set on all the methods by the ${transport} GrpcClient`, () => {
+      const {api} = recordingApi();
+      const grpcClient = new Client({tracing: {api}});
+      const settings = grpcClient.constructSettings(
+        'SampleApi',
+        {interfaces: {SampleApi: {methods: {SampleMethod: {}}}}},
+        {},
+        {},
+      );
+      const tracer = settings.sampleMethod.tracer!;
+      assert.strictEqual(
+        tracer.rpcSystem,
+        rpcSystems[transport as keyof typeof rpcSystems],
+      );
+      assert.strictEqual(tracer.enabled, true);
+      assert.strictEqual(grpcClient.tracer, tracer);
+    });
+  }
+});
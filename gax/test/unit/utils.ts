@@ -14,13 +14,17 @@
  * limitations under the License.
  */
 
-import {GaxCallPromise} from '../../src/apitypes';
+import {GaxCallPromise, GaxCallStream, GRPCCall} from '../../src/apitypes';
 import {createApiCall as realCreateApiCall} from '../../src/createApiCall';
 import * as gax from '../../src/gax';
 import {GoogleError} from '../../src/googleError';
 import {Descriptor} from '../../src/descriptor';
 import {serializer} from '../../src';
 import {GrpcClient, defaultToObjectOptions} from '../../src/fallback';
+import {Status} from '../../src/status';
+import {StreamDescriptor} from '../../src/streamingCalls/streamDescriptor';
+import {StreamType} from '../../src/streamingCalls/streaming';
+import {PassThrough} from 'stream';
 import {gaxios, GoogleAuth, PassThroughClient} from 'google-auth-library';
 
 export const FAKE_STATUS_CODE_1 = (exports.FAKE_STATUS_CODE_1 = 1);
@@ -81,6 +85,25 @@ export function createApiCall(func: Function, opts?: Options) {
   ) as GaxCallPromise;
 }
 
+// Creates a server-streaming call whose stream fails with NOT_FOUND, without
+// a gRPC status.
+export function createFailingStreamCall(settings: gax.CallOptions) {
+  const func = () => {
+    const stream = new PassThrough({objectMode: true});
+    setImmediate(() => {
+      const error = new GoogleError('not found');
+      error.code = Status.NOT_FOUND;
+      stream.emit('error', error);
+    });
+    return stream;
+  };
+  return realCreateApiCall(
+    Promise.resolve(func as unknown as GRPCCall),
+    new gax.CallSettings(settings),
+    new StreamDescriptor(StreamType.SERVER_STREAMING, false, true),
+  ) as GaxCallStream;
+}
+
 export function createRetryOptions(
   backoffSettingsOrInitialRetryDelayMillis: number | gax.BackoffSettings,
   retryDelayMultiplier?: number,
@@ -58,7 +58,11 @@ export class Colours {
   }
 
   static refresh(): void {
-    Colours.enabled = Colours.isEnabled(process?.stderr);
+    // Read from the global object, since browsers have no process.
+    const global = globalThis as {process?: NodeJS.Process};
+    Colours.enabled = Colours.isEnabled(
+      global.process?.stderr as tty.WriteStream
+    );
     if (!this.enabled) {
       Colours.reset = '';
       Colours.bright = '';
@@ -13,8 +13,7 @@
 // limitations under the License.
 
 import {EventEmitter} from 'events';
-import * as process from 'process';
-import * as util from 'util';
+import type * as util from 'util';
 import {Colours} from './colours';
 
 // Some functions (as noted) are based on the Node standard library, from
@@ -223,6 +222,117 @@ export interface DebugLogBackend {
   setFilters(filters: string[]): void;
 }
 
+// The severities from the least to the most severe, as ordered by Cloud
+// Logging.
+const severityOrder = [
+  LogSeverity.DEFAULT,
+  LogSeverity.DEBUG,
+  LogSeverity.INFO,
+  LogSeverity.WARNING,
+  LogSeverity.ERROR,
+];
+
+/**
+ * Parses the name of a severity in a filter, e.g. "warn" or "WARNING".
+ *
+ * @returns The severity, or undefined if the name is unknown.
+ */
+function parseSeverity(name: string): LogSeverity | undefined {
+  const upper = name.trim().toUpperCase();
+  if (upper === 'WARN') {
+    return LogSeverity.WARNING;
+  }
+  return severityOrder.find(severity => severity === upper);
+}
+
+/**
+ * A minimum severity for the namespaces matching a filter, e.g. `gax:*=warn`.
+ */
+interface SeverityThreshold {
+  regexp: RegExp;
+  severity: LogSeverity;
+}
+
+/**
+ * Limits on the number of entries logged, for busy services. ERROR entries
+ * are always logged. The entries dropped are counted, and reported by a
+ * "N messages suppressed" entry of the namespace once a second.
+ */
+export interface SamplingOptions {
+  /**
+   * The maximum number of entries logged per second by each namespace.
+   */
+  maxPerSecond?: number;
+
+  /**
+   * The fraction of the DEBUG entries logged, between 0 and 1. They are
+   * picked at random.
+   */
+  debugSampleRate?: number;
+}
+
+// How often the entries dropped by sampling are reported.
+const suppressedReportMillis = 1000;
+
+/**
+ * @returns true when running in Node, rather than e.g. in a browser.
+ */
+function isNode(): boolean {
+  const global = globalThis as {process?: NodeJS.Process};
+  return !!global.process?.versions?.node;
+}
+
+let nodeUtil: typeof util | undefined;
+
+/**
+ * Loads Node's `util` lazily, since only the backends used in Node need it
+ * and browsers don't have it.
+ *
+ * @returns The `util` module.
+ */
+function getUtil(): typeof util {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  return (nodeUtil ??= require('util'));
+}
+
+/**
+ * Reads one of our settings. In Node, they're environment variables. In
+ * browsers, they're read from a global variable of the same name, or else
+ * from `localStorage`, e.g. `localStorage.GOOGLE_SDK_NODE_LOGGING = '*'`.
+ *
+ * @param name The name of the setting, one of `env`.
+ * @returns The value of the setting, or undefined if it isn't set.
+ */
+function setting(name: string): string | undefined {
+  if (isNode()) {
+    return process.env[name];
+  }
+  const global = globalThis as unknown as {[name: string]: unknown};
+  if (typeof global[name] === 'string') {
+    return global[name] as string;
+  }
+  try {
+    return globalThis.localStorage?.getItem(name) ?? undefined;
+  } catch (e) {
+    // Storage may be denied, e.g. for third-party frames.
+    return undefined;
+  }
+}
+
+/**
+ * Reads a number from the environment.
+ *
+ * @returns The number, or undefined if the variable is missing or invalid.
+ */
+function numberFromEnv(name: string): number | undefined {
+  const value = setting(name);
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return isNaN(parsed) || parsed < 0 ? undefined : parsed;
+}
+
 /**
  * The base class for debug logging backends. It's possible to use this, but the
  * same non-guarantees above still apply (unstable interface, etc).
@@ -234,15 +344,36 @@ export abstract class DebugLogBackendBase implements DebugLogBackend {
   cached = new Map<string, AdhocDebugLogCallable>();
   filters: string[] = [];
   filtersSet = false;
+  thresholds: SeverityThreshold[] = [];
+  sampling: SamplingOptions = {};
 
   constructor() {
     // Look for the Node config variable for what systems to enable. We'll store
     // these for the log method below, which will call setFilters() once.
-    let nodeFlag = process.env[env.nodeEnables] ?? '*';
+    let nodeFlag = setting(env.nodeEnables) ?? '*';
     if (nodeFlag === 'all') {
       nodeFlag = '*';
     }
-    this.filters = nodeFlag.split(',');
+
+    // Filters may end with a minimum severity, e.g. "gax:*=warn". The
+    // subclasses only see the namespace part in `this.filters`.
+    this.filters = nodeFlag.split(',').map(filter => {
+      const separator = filter.lastIndexOf('=');
+      if (separator < 0) {
+        return filter;
+      }
+      const namespaces = filter.slice(0, separator);
+      const severity = parseSeverity(filter.slice(separator + 1));
+      if (severity) {
+        this.thresholds.push({regexp: filtersRegexp([namespaces]), severity});
+      }
+      return namespaces;
+    });
+
+    this.sampling = {
+      maxPerSecond: numberFromEnv(env.nodeRateLimit),
+      debugSampleRate: numberFromEnv(env.nodeDebugSampleRate),
+    };
   }
 
   /**
@@ -252,22 +383,102 @@ export abstract class DebugLogBackendBase implements DebugLogBackend {
    */
   abstract makeLogger(namespace: string): AdhocDebugLogCallable;
 
+  /**
+   * Creates a callback writing every log line, whatever the filters, e.g. to
+   * flush the entries kept by the ring buffer backend. Backends that can't
+   * bypass their filters return `makeLogger()`.
+   *
+   * @param namespace The system/subsystem namespace.
+   */
+  makeUnfilteredLogger(namespace: string): AdhocDebugLogCallable {
+    return this.makeLogger(namespace);
+  }
+
   /**
    * Provides a callback for the subclass to hook if it needs to do something
    * specific with `this.filters`.
    */
   abstract setFilters(): void;
 
+  /**
+   * Whether the filters let the entries of a namespace through. Backends
+   * filtering the namespaces themselves override this.
+   *
+   * @param namespace The system/subsystem namespace.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  isEnabled(namespace: string): boolean {
+    return true;
+  }
+
+  /**
+   * Whether an entry would pass the filters and the severity threshold of its
+   * namespace. The entries dropped by sampling aren't known in advance.
+   *
+   * @param namespace The system/subsystem namespace.
+   * @param severity The severity of the entry.
+   */
+  isLogged(namespace: string, severity?: LogSeverity): boolean {
+    this.initFilters();
+    const threshold = this.severityThreshold(namespace);
+    if (
+      threshold &&
+      severityOrder.indexOf(severity ?? LogSeverity.DEFAULT) <
+        severityOrder.indexOf(threshold)
+    ) {
+      return false;
+    }
+    return this.isEnabled(namespace);
+  }
+
+  /**
+   * Replaces the sampling options read from the environment.
+   *
+   * @param sampling The limits on the number of entries logged.
+   */
+  setSampling(sampling: SamplingOptions): void {
+    const {maxPerSecond, debugSampleRate} = sampling;
+    if (maxPerSecond !== undefined && !(maxPerSecond >= 0)) {
+      throw new Error('maxPerSecond should be a non-negative number');
+    }
+    if (
+      debugSampleRate !== undefined &&
+      !(debugSampleRate >= 0 && debugSampleRate <= 1)
+    ) {
+      throw new Error('debugSampleRate should be between 0 and 1');
+    }
+    this.sampling = {maxPerSecond, debugSampleRate};
+    this.cached.clear();
+  }
+
+  /**
+   * Finds the minimum severity of the entries of a namespace. When several
+   * filters match it, the last one wins.
+   *
+   * @param namespace The system/subsystem namespace.
+   * @returns The minimum severity, or undefined if all entries are logged.
+   */
+  severityThreshold(namespace: string): LogSeverity | undefined {
+    let threshold: LogSeverity | undefined;
+    for (const {regexp, severity} of this.thresholds) {
+      if (regexp.test(namespace)) {
+        threshold = severity;
+      }
+    }
+    return threshold;
+  }
+
   log(namespace: string, fields: LogFields, ...args: unknown[]): void {
     try {
-      if (!this.filtersSet) {
-        this.setFilters();
-        this.filtersSet = true;
-      }
+      this.initFilters();
 
       let logger = this.cached.get(namespace);
       if (!logger) {
-        logger = this.makeLogger(namespace);
+        // The entries below the threshold don't count against the limits.
+        logger = this.withThreshold(
+          namespace,
+          this.withSampling(this.makeLogger(namespace))
+        );
         this.cached.set(namespace, logger);
       }
       logger(fields, ...args);
@@ -278,6 +489,91 @@ export abstract class DebugLogBackendBase implements DebugLogBackend {
       console.error(e);
     }
   }
+
+  private initFilters() {
+    if (!this.filtersSet) {
+      this.setFilters();
+      this.filtersSet = true;
+    }
+  }
+
+  // Drops the entries below the threshold of the namespace before the
+  // backend gets to format them.
+  private withThreshold(
+    namespace: string,
+    logger: AdhocDebugLogCallable
+  ): AdhocDebugLogCallable {
+    const threshold = this.severityThreshold(namespace);
+    if (!threshold) {
+      return logger;
+    }
+    const minimum = severityOrder.indexOf(threshold);
+    return (fields: LogFields, ...args: unknown[]) => {
+      const severity = fields.severity ?? LogSeverity.DEFAULT;
+      if (severityOrder.indexOf(severity) >= minimum) {
+        logger(fields, ...args);
+      }
+    };
+  }
+
+  // Drops the entries over the rate limit, and some of the DEBUG ones, and
+  // reports how many were dropped.
+  private withSampling(logger: AdhocDebugLogCallable): AdhocDebugLogCallable {
+    const {maxPerSecond, debugSampleRate} = this.sampling;
+    if (maxPerSecond === undefined && debugSampleRate === undefined) {
+      return logger;
+    }
+
+    let windowStart = 0;
+    let logged = 0;
+    let suppressed = 0;
+    let reportTimer: ReturnType<typeof setTimeout> | undefined;
+    const report = () => {
+      reportTimer = undefined;
+      const count = suppressed;
+      suppressed = 0;
+      logger(
+        {severity: LogSeverity.WARNING, other: {suppressed: count}},
+        '%d messages suppressed',
+        count
+      );
+    };
+    const suppress = () => {
+      suppressed++;
+      if (!reportTimer) {
+        reportTimer = setTimeout(report, suppressedReportMillis);
+        // The report shouldn't keep the process alive.
+        reportTimer.unref?.();
+      }
+    };
+
+    return (fields: LogFields, ...args: unknown[]) => {
+      const severity = fields.severity ?? LogSeverity.DEFAULT;
+      if (severity !== LogSeverity.ERROR) {
+        if (
+          severity === LogSeverity.DEBUG &&
+          debugSampleRate !== undefined &&
+          Math.random() >= debugSampleRate
+        ) {
+          suppress();
+          return;
+        }
+        if (maxPerSecond !== undefined) {
+          const now = Date.now();
+          if (now - windowStart >= 1000) {
+            windowStart = now;
+            logged = 0;
+          }
+          if (logged >= maxPerSecond) {
+            suppress();
+            return;
+          }
+          logged++;
+        }
+      }
+      logger(fields, ...args);
+    };
+  }
 }
 
 // The basic backend. This one definitely works, but it's less feature-filled.
@@ -291,7 +587,7 @@ export abstract class DebugLogBackendBase implements DebugLogBackend {
 class NodeBackend extends DebugLogBackendBase {
   // Default to allowing all systems, since we gate earlier based on whether the
   // variable is empty.
-  enabledRegexp = /.*/g;
+  enabledRegexp = /.*/;
 
   isEnabled(namespace: string): boolean {
     return this.enabledRegexp.test(namespace);
@@ -301,7 +597,10 @@ class NodeBackend extends DebugLogBackendBase {
     if (!this.enabledRegexp.test(namespace)) {
       return () => {};
     }
+    return this.makeUnfilteredLogger(namespace);
+  }
 
+  makeUnfilteredLogger(namespace: string): AdhocDebugLogCallable {
     return (fields: LogFields, ...args: unknown[]) => {
       // TODO: `fields` needs to be turned into a string here, one way or another.
       const nscolour = `${Colours.green}${namespace}${Colours.reset}`;
@@ -321,7 +620,10 @@ class NodeBackend extends DebugLogBackendBase {
           level = fields.severity ?? LogSeverity.DEFAULT;
           break;
       }
-      const msg = util.formatWithOptions({colors: Colours.enabled}, ...args);
+      const msg = getUtil().formatWithOptions(
+        {colors: Colours.enabled},
+        ...args
+      );
 
       const filteredFields: LogFields = Object.assign({}, fields);
       delete filteredFields.severity;
@@ -343,18 +645,22 @@ class NodeBackend extends DebugLogBackendBase {
     };
   }
 
-  // Regexp patterns below are from here:
-  // https://github.com/nodejs/node/blob/c0aebed4b3395bd65d54b18d1fd00f071002ac20/lib/internal/util/debuglog.js#L36
   setFilters(): void {
-    const totalFilters = this.filters.join(',');
-    const regexp = totalFilters
-      .replace(/[|\\{}()[\]^$+?.]/g, '\\$&')
-      .replace(/\*/g, '.*')
-      .replace(/,/g, '$|^');
-    this.enabledRegexp = new RegExp(`^${regexp}$`, 'i');
+    this.enabledRegexp = filtersRegexp(this.filters);
   }
 }
 
+// Regexp patterns below are from here:
+// https://github.com/nodejs/node/blob/c0aebed4b3395bd65d54b18d1fd00f071002ac20/lib/internal/util/debuglog.js#L36
+function filtersRegexp(filters: string[]): RegExp {
+  const totalFilters = filters.join(',');
+  const regexp = totalFilters
+    .replace(/[|\\{}()[\]^$+?.]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/,/g, '$|^');
+  return new RegExp(`^${regexp}$`, 'i');
+}
+
 /**
  * @returns A backend based on Node util.debuglog; this is the default.
  */
@@ -426,14 +732,28 @@ class StructuredBackend extends DebugLogBackendBase {
     this.upstream = (upstream as DebugLogBackendBase) ?? undefined;
   }
 
+  isEnabled(namespace: string): boolean {
+    return this.upstream?.isEnabled(namespace) ?? true;
+  }
+
   makeLogger(namespace: string): AdhocDebugLogCallable {
-    const debugLogger = this.upstream?.makeLogger(namespace);
+    return this.structure(this.upstream?.makeLogger(namespace));
+  }
+
+  makeUnfilteredLogger(namespace: string): AdhocDebugLogCallable {
+    return this.structure(this.upstream?.makeUnfilteredLogger(namespace));
+  }
+
+  // Writes the log lines as JSON to the logger of the upstream backend.
+  private structure(
+    debugLogger: AdhocDebugLogCallable | undefined
+  ): AdhocDebugLogCallable {
     return (fields: LogFields, ...args: unknown[]) => {
       const severity = fields.severity ?? LogSeverity.INFO;
       const json = Object.assign(
         {
           severity,
-          message: util.format(...args),
+          message: getUtil().format(...args),
         },
         fields
       );
@@ -471,6 +791,460 @@ export function getStructuredBackend(
   return new StructuredBackend(upstream);
 }
 
+/**
+ * Options for the JSON-lines backend.
+ */
+export interface JsonBackendOptions {
+  /**
+   * The project of the traces, used to build the full resource names Cloud
+   * Logging expects for `logging.googleapis.com/trace`. Without it, the
+   * trace IDs are written as they are.
+   */
+  projectId?: string;
+
+  /**
+   * Labels added to every entry, along with the namespace of the logger.
+   */
+  labels?: {[key: string]: string};
+
+  /**
+   * Whether to add the caller of the logger to the entries as their
+   * `logging.googleapis.com/sourceLocation`. This walks the stack on each
+   * log call, so it is off by default.
+   */
+  sourceLocation?: boolean;
+
+  /**
+   * Where to write the lines, by default stdout.
+   */
+  write?: (line: string) => void;
+}
+
+/**
+ * The location of the caller of a logger, as Cloud Logging ingests it.
+ */
+interface SourceLocation {
+  file: string;
+  line: string;
+  function?: string;
+}
+
+// Matches the frames of V8 stack traces, e.g. "    at fn (file.js:10:5)" or
+// "    at file.js:10:5".
+const stackFrameRegexp = /^\s*at (?:(.+?) \()?(.+):(\d+):\d+\)?$/;
+
+function callerSourceLocation(): SourceLocation | undefined {
+  const stack = new Error().stack?.split('\n').slice(1) ?? [];
+  for (const frame of stack) {
+    const match = stackFrameRegexp.exec(frame);
+    // Skip the frames of this module, and of the emitter of the loggers.
+    if (!match || match[2] === __filename || match[2].startsWith('node:')) {
+      continue;
+    }
+    return {
+      file: match[2],
+      line: match[3],
+      function: match[1],
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Serializes a value to JSON, replacing the values JSON.stringify can't
+ * handle: circular references become "[Circular]", BigInts become strings
+ * and errors keep their name, message and stack.
+ */
+function safeStringify(value: unknown): string {
+  const ancestors: unknown[] = [];
+  return JSON.stringify(value, function (this: unknown, key, val: unknown) {
+    if (typeof val === 'bigint') {
+      return val.toString();
+    }
+    if (typeof val !== 'object' || val === null) {
+      return val;
+    }
+    // `this` is the object holding `val`; drop the ancestors that are done.
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+      ancestors.pop();
+    }
+    if (ancestors.includes(val)) {
+      return '[Circular]';
+    }
+    ancestors.push(val);
+    if (val instanceof Error) {
+      const error = {
+        ...val,
+        name: val.name,
+        message: val.message,
+        stack: val.stack,
+      };
+      // The copy holds the fields of the error from now on.
+      ancestors.push(error);
+      return error;
+    }
+    return val;
+  });
+}
+
+/**
+ * Writes one JSON object per line, using the field names that Cloud Logging
+ * ingests from the output of its agents and of serverless platforms.
+ */
+class JsonBackend extends DebugLogBackendBase {
+  options: JsonBackendOptions;
+  enabledRegexp = /.*/;
+
+  constructor(options?: JsonBackendOptions) {
+    super();
+    this.options = options ?? {};
+  }
+
+  isEnabled(namespace: string): boolean {
+    return this.enabledRegexp.test(namespace);
+  }
+
+  makeLogger(namespace: string): AdhocDebugLogCallable {
+    if (!this.enabledRegexp.test(namespace)) {
+      return () => {};
+    }
+    return this.makeUnfilteredLogger(namespace);
+  }
+
+  makeUnfilteredLogger(namespace: string): AdhocDebugLogCallable {
+    const write =
+      this.options.write ?? ((line: string) => process.stdout.write(line));
+    return (fields: LogFields, ...args: unknown[]) => {
+      const entry: {[key: string]: unknown} = {
+        severity: fields.severity ?? LogSeverity.DEFAULT,
+        message: getUtil().format(...args),
+        timestamp: new Date().toISOString(),
+      };
+      if (fields.telemetryTraceId) {
+        entry['logging.googleapis.com/trace'] = this.options.projectId
+          ? `projects/${this.options.projectId}/traces/${fields.telemetryTraceId}`
+          : fields.telemetryTraceId;
+      }
+      if (fields.telemetrySpanId) {
+        entry['logging.googleapis.com/spanId'] = fields.telemetrySpanId;
+      }
+      entry['logging.googleapis.com/labels'] = {
+        ...this.options.labels,
+        namespace,
+      };
+      if (this.options.sourceLocation) {
+        const sourceLocation = callerSourceLocation();
+        if (sourceLocation) {
+          entry['logging.googleapis.com/sourceLocation'] = sourceLocation;
+        }
+      }
+      if (fields.other !== undefined) {
+        entry.other = fields.other;
+      }
+
+      write(`${safeStringify(entry)}\n`);
+    };
+  }
+
+  setFilters(): void {
+    this.enabledRegexp = filtersRegexp(this.filters);
+  }
+}
+
+/**
+ * Creates a JSON-lines backend. Each log call writes one structured entry,
+ * with the field names Cloud Logging ingests from stdout (`severity`,
+ * `message`, `logging.googleapis.com/trace`, etc.). The `other` log field is
+ * kept as is, and values JSON can't represent, like circular references and
+ * BigInts, are replaced.
+ *
+ * ```
+ *  setBackend(getJsonBackend({projectId: 'my-project'}))
+ * ```
+ *
+ * It can also be selected by setting the `GOOGLE_SDK_NODE_LOGGING_BACKEND`
+ * environment variable to `json`.
+ *
+ * @param options Where and how to write the entries.
+ * @returns A backend writing Cloud Logging JSON lines.
+ */
+export function getJsonBackend(options?: JsonBackendOptions): DebugLogBackend {
+  return new JsonBackend(options);
+}
+
+// The colours of the namespaces in browser consoles, picked from the
+// namespace so that each one keeps its colour.
+const browserColours = [
+  '#0074d9',
+  '#2e8b57',
+  '#b10dc9',
+  '#e67e22',
+  '#008b8b',
+  '#c71585',
+  '#8b4513',
+  '#556b2f',
+];
+
+function namespaceColour(namespace: string): string {
+  let hash = 0;
+  for (let i = 0; i < namespace.length; i++) {
+    hash = (hash * 31 + namespace.charCodeAt(i)) | 0;
+  }
+  return browserColours[Math.abs(hash) % browserColours.length];
+}
+
+// Writes to the console method matching the severity, so that browsers can
+// filter the entries by level.
+function writeToConsole(severity: LogSeverity | undefined, ...args: unknown[]) {
+  switch (severity) {
+    case LogSeverity.ERROR:
+      console.error(...args);
+      break;
+    case LogSeverity.WARNING:
+      console.warn(...args);
+      break;
+    case LogSeverity.INFO:
+      console.info(...args);
+      break;
+    case LogSeverity.DEBUG:
+      console.debug(...args);
+      break;
+    default:
+      console.log(...args);
+      break;
+  }
+}
+
+/**
+ * Logs to the console of browsers, which can't use `util` or `process`.
+ * Namespaces are coloured with CSS, and format strings are left to the
+ * console, which supports the same `%s`, `%d`, `%o` etc. as `util.format()`.
+ */
+class BrowserBackend extends DebugLogBackendBase {
+  enabledRegexp = /.*/;
+
+  isEnabled(namespace: string): boolean {
+    return this.enabledRegexp.test(namespace);
+  }
+
+  makeLogger(namespace: string): AdhocDebugLogCallable {
+    if (!this.enabledRegexp.test(namespace)) {
+      return () => {};
+    }
+    return this.makeUnfilteredLogger(namespace);
+  }
+
+  makeUnfilteredLogger(namespace: string): AdhocDebugLogCallable {
+    const style = `color: ${namespaceColour(namespace)}; font-weight: bold`;
+    return (fields: LogFields, ...args: unknown[]) => {
+      const hasFormat = typeof args[0] === 'string';
+      const format = `%c${namespace}%c${hasFormat ? ` ${args[0]}` : ''}`;
+      const params = [style, '', ...(hasFormat ? args.slice(1) : args)];
+
+      const filteredFields: LogFields = Object.assign({}, fields);
+      delete filteredFields.severity;
+      if (Object.getOwnPropertyNames(filteredFields).length) {
+        params.push(filteredFields);
+      }
+
+      writeToConsole(fields.severity, format, ...params);
+    };
+  }
+
+  setFilters(): void {
+    this.enabledRegexp = filtersRegexp(this.filters);
+  }
+}
+
+/**
+ * Creates a backend for browsers, writing to their console. It's the default
+ * when not running in Node, in which case the settings are read from global
+ * variables or `localStorage` instead of environment variables:
+ *
+ * ```
+ *  localStorage.GOOGLE_SDK_NODE_LOGGING = 'gax:*';
+ * ```
+ *
+ * @returns A backend based on the browser console.
+ */
+export function getBrowserBackend(): DebugLogBackend {
+  return new BrowserBackend();
+}
+
+/**
+ * A log entry kept by the ring buffer backend.
+ */
+export interface BufferedLogEntry {
+  namespace: string;
+  fields: LogFields;
+  args: unknown[];
+
+  /**
+   * When the entry was logged, in milliseconds since the epoch.
+   */
+  timestamp: number;
+}
+
+/**
+ * Options for the ring buffer backend.
+ */
+export interface RingBufferBackendOptions {
+  /**
+   * The number of entries kept; older ones are dropped. Defaults to 1000.
+   */
+  size?: number;
+
+  /**
+   * A backend also receiving every entry, as if it were set directly. It
+   * applies its own filters, e.g. to only print warnings.
+   */
+  upstream?: DebugLogBackend;
+
+  /**
+   * Whether to write out the entries kept when an ERROR entry is logged, to
+   * the upstream backend or else to the default one. They're written even if
+   * the filters of that backend would drop them, and the buffer is emptied.
+   * The entries an upstream backend of this package already printed aren't
+   * written again.
+   */
+  flushOnError?: boolean;
+}
+
+/**
+ * A backend keeping the last entries in memory, see `getRingBufferBackend()`.
+ */
+export interface RingBufferLogBackend extends DebugLogBackend {
+  /**
+   * @returns The entries kept, from the oldest to the newest.
+   */
+  dump(): BufferedLogEntry[];
+
+  /**
+   * Empties the buffer.
+   *
+   * @returns The entries that were kept, from the oldest to the newest.
+   */
+  drain(): BufferedLogEntry[];
+}
+
+/**
+ * Keeps the last entries of all the namespaces, at all severities, without
+ * printing them.
+ */
+class RingBufferBackend implements RingBufferLogBackend {
+  size: number;
+  upstream?: DebugLogBackend;
+  flushOnError: boolean;
+
+  // The entries, in a circular array starting at `start`.
+  private entries: BufferedLogEntry[] = [];
+  private start = 0;
+
+  // Where to flush when there's no upstream, made on the first flush.
+  private flushBackend?: DebugLogBackend;
+
+  // The entries the upstream backend printed, which aren't flushed again.
+  private printed = new WeakSet<BufferedLogEntry>();
+
+  constructor(options?: RingBufferBackendOptions) {
+    this.size = options?.size ?? 1000;
+    this.upstream = options?.upstream;
+    this.flushOnError = options?.flushOnError ?? false;
+    if (!(Number.isInteger(this.size) && this.size > 0)) {
+      throw new Error('size should be a positive integer');
+    }
+  }
+
+  log(namespace: string, fields: LogFields, ...args: unknown[]): void {
+    const entry = {namespace, fields, args, timestamp: Date.now()};
+    if (
+      this.upstream instanceof DebugLogBackendBase &&
+      this.upstream.isLogged(namespace, fields.severity)
+    ) {
+      this.printed.add(entry);
+    }
+    if (this.flushOnError && fields.severity === LogSeverity.ERROR) {
+      this.flush(entry);
+    } else {
+      this.push(entry);
+    }
+    this.upstream?.log(namespace, fields, ...args);
+  }
+
+  setFilters(filters: string[]): void {
+    this.upstream?.setFilters(filters);
+  }
+
+  dump(): BufferedLogEntry[] {
+    return this.entries
+      .slice(this.start)
+      .concat(this.entries.slice(0, this.start));
+  }
+
+  drain(): BufferedLogEntry[] {
+    const entries = this.dump();
+    this.entries = [];
+    this.start = 0;
+    return entries;
+  }
+
+  private push(entry: BufferedLogEntry) {
+    if (this.entries.length < this.size) {
+      this.entries.push(entry);
+    } else {
+      this.entries[this.start] = entry;
+      this.start = (this.start + 1) % this.size;
+    }
+  }
+
+  // Writes out the entries kept, as the context of an error, but not those
+  // the upstream backend already printed. The upstream backend gets the error
+  // itself as usual.
+  private flush(error: BufferedLogEntry) {
+    const entries = this.drain().filter(entry => !this.printed.has(entry));
+    if (!this.upstream) {
+      entries.push(error);
+    }
+    const backend =
+      this.upstream ?? (this.flushBackend ??= getDefaultBackend());
+    // Bypass the filters of the backend when possible, since the context is
+    // what was filtered out.
+    const loggers = new Map<string, AdhocDebugLogCallable>();
+    for (const {namespace, fields, args} of entries) {
+      if (backend instanceof DebugLogBackendBase) {
+        let logger = loggers.get(namespace);
+        if (!logger) {
+          logger = backend.makeUnfilteredLogger(namespace);
+          loggers.set(namespace, logger);
+        }
+        logger(fields, ...args);
+      } else {
+        backend.log(namespace, fields, ...args);
+      }
+    }
+  }
+}
+
+/**
+ * Creates a backend keeping the last entries of all the namespaces, at all
+ * severities, in memory, without printing them. They can be read with
+ * `dump()` or `drain()`, or written out when an error is logged, to get the
+ * full context of failures without printing debug logs all the time.
+ *
+ * ```
+ *  const buffer = getRingBufferBackend({size: 500, flushOnError: true});
+ *  setBackend(buffer);
+ * ```
+ *
+ * @param options The size of the buffer, and where the entries go.
+ * @returns A backend keeping the last entries in memory.
+ */
+export function getRingBufferBackend(
+  options?: RingBufferBackendOptions
+): RingBufferLogBackend {
+  return new RingBufferBackend(options);
+}
+
 /**
  * The environment variables that we standardized on, for all ad-hoc logging.
  */
@@ -480,8 +1254,40 @@ export const env = {
    * utils.debuglog() environment variable. If missing, disables logging.
    */
   nodeEnables: 'GOOGLE_SDK_NODE_LOGGING',
+
+  /**
+   * The backend used when none was set with `setBackend()`: `json` for the
+   * JSON-lines backend, otherwise the Node backend.
+   */
+  nodeBackend: 'GOOGLE_SDK_NODE_LOGGING_BACKEND',
+
+  /**
+   * The maximum number of entries logged per second by each namespace, see
+   * `SamplingOptions.maxPerSecond`.
+   */
+  nodeRateLimit: 'GOOGLE_SDK_NODE_LOGGING_RATE_LIMIT',
+
+  /**
+   * The fraction of the DEBUG entries logged, see
+   * `SamplingOptions.debugSampleRate`.
+   */
+  nodeDebugSampleRate: 'GOOGLE_SDK_NODE_LOGGING_DEBUG_SAMPLE_RATE',
 };
 
+/**
+ * @returns The backend selected by the environment, used when none was set:
+ *   the browser backend when not in Node.
+ */
+function getDefaultBackend(): DebugLogBackend {
+  if (!isNode()) {
+    return getBrowserBackend();
+  }
+  if (setting(env.nodeBackend)?.toLowerCase() === 'json') {
+    return getJsonBackend();
+  }
+  return getNodeBackend();
+}
+
 // Keep a copy of all namespaced loggers so users can reliably .on() them.
 // Note that these cached functions will need to deal with changes in the backend.
 const loggerCache = new Map<string, AdhocDebugLogger>();
@@ -493,7 +1299,8 @@ let cachedBackend: DebugLogBackend | null | undefined = undefined;
  * Set the backend to use for our log output.
  * - A backend object
  * - null to disable logging
- * - undefined for "nothing yet", defaults to the Node backend
+ * - undefined for "nothing yet", defaults to the Node backend, or to the
+ *   one selected by the `GOOGLE_SDK_NODE_LOGGING_BACKEND` variable
  *
  * @param backend Results from one of the get*Backend() functions.
  */
@@ -520,7 +1327,7 @@ export function log(
   // can still choose to set a backend of their choice using the manual
   // `setBackend()`.
   if (!cachedBackend) {
-    const enablesFlag = process.env[env.nodeEnables];
+    const enablesFlag = setting(env.nodeEnables);
     if (!enablesFlag) {
       return placeholder;
     }
@@ -548,8 +1355,8 @@ export function log(
     // Explicitly disabled.
     return placeholder;
   } else if (cachedBackend === undefined) {
-    // One hasn't been made yet, so default to Node.
-    cachedBackend = getNodeBackend();
+    // One hasn't been made yet, so default to the environment's choice.
+    cachedBackend = getDefaultBackend();
   }
 
   // The logger is further wrapped so we can handle the backend changing out.
@@ -564,8 +1371,9 @@ export function log(
             // Explicitly disabled.
             return;
           } else if (cachedBackend === undefined) {
-            // One hasn't been made yet, so default to Node.
-            cachedBackend = getNodeBackend();
+            // One hasn't been made yet, so default to the environment's
+            // choice.
+            cachedBackend = getDefaultBackend();
           }
 
           previousBackend = cachedBackend;
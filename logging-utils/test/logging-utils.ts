@@ -269,6 +269,588 @@ describe('adhoc-logging', () => {
     });
   });
 
+  describe('Severity thresholds', () => {
+    let thresholdSink: TestSink;
+
+    beforeEach(() => {
+      process.env[al.env.nodeEnables] = 'gax:*=warn,pubsub,pubsub:retry=debug';
+      thresholdSink = new TestSink();
+      al.setBackend(thresholdSink);
+    });
+
+    afterEach(() => {
+      al.setBackend(undefined);
+    });
+
+    it('drops the entries below the threshold of the namespace', () => {
+      const logger = al.log('gax:retries');
+      logger.debug('dropped');
+      logger.info('dropped');
+      logger.warn('kept');
+      logger.error('kept');
+      assert.deepStrictEqual(
+        thresholdSink.logs.map(log => log.fields.severity),
+        [al.LogSeverity.WARNING, al.LogSeverity.ERROR]
+      );
+    });
+
+    it('keeps all the entries of the namespaces without a threshold', () => {
+      al.log('pubsub')({}, 'kept');
+      al.log('pubsub').debug('kept');
+      al.log('pubsub:retry')({}, 'dropped');
+      al.log('pubsub:retry').debug('kept');
+      assert.deepStrictEqual(
+        thresholdSink.logs.map(log => [log.namespace, log.fields.severity]),
+        [
+          ['pubsub', undefined],
+          ['pubsub', al.LogSeverity.DEBUG],
+          ['pubsub:retry', al.LogSeverity.DEBUG],
+        ]
+      );
+    });
+
+    it('passes the namespaces without severities to the backends', () => {
+      assert.deepStrictEqual(thresholdSink.filters, [
+        'gax:*',
+        'pubsub',
+        'pubsub:retry',
+      ]);
+      assert.strictEqual(
+        thresholdSink.severityThreshold('gax:lro'),
+        al.LogSeverity.WARNING
+      );
+      assert.strictEqual(thresholdSink.severityThreshold('other'), undefined);
+    });
+
+    it('is honored by the Node backend', () => {
+      al.setBackend(al.getNodeBackend());
+      const sandbox = sinon.createSandbox();
+      const printed: unknown[][] = [];
+      sandbox.stub(console, 'error').callsFake((...args) => printed.push(args));
+      try {
+        al.log('gax:lro').info('dropped');
+        al.log('gax:lro').warn('kept');
+      } finally {
+        sandbox.restore();
+      }
+      assert.strictEqual(printed.length, 1);
+      assert.match(printed[0][4] as string, /kept/);
+    });
+
+    it('is honored by the structured backend', () => {
+      al.setBackend(al.getStructuredBackend(thresholdSink));
+      al.log('gax:lro').info('dropped');
+      al.log('gax:lro').error('kept');
+      assert.deepStrictEqual(thresholdSink.logs, [
+        {
+          namespace: 'gax:lro',
+          fields: {severity: al.LogSeverity.ERROR},
+          args: ['{"severity":"ERROR","message":"kept"}'],
+        },
+      ]);
+    });
+
+    it('is honored by the debug package backend', () => {
+      const printed: unknown[][] = [];
+      const debugPkg = () => {
+        return (...args: unknown[]) => printed.push(args);
+      };
+      const nodeDebug = process.env['NODE_DEBUG'];
+      delete process.env['NODE_DEBUG'];
+      try {
+        al.setBackend(al.getDebugBackend(debugPkg));
+        al.log('gax:lro').debug('dropped');
+        al.log('gax:lro').warn('kept');
+        assert.strictEqual(
+          process.env['NODE_DEBUG'],
+          'gax:*,pubsub,pubsub:retry'
+        );
+      } finally {
+        if (nodeDebug === undefined) {
+          delete process.env['NODE_DEBUG'];
+        } else {
+          process.env['NODE_DEBUG'] = nodeDebug;
+        }
+      }
+      assert.deepStrictEqual(printed, [['kept']]);
+    });
+  });
+
+  describe('Sampling', () => {
+    const system = 'sampling';
+    let samplingSink: TestSink;
+    let clock: sinon.SinonFakeTimers;
+    let logger: al.AdhocDebugLogFunction;
+
+    beforeEach(() => {
+      clock = sinon.useFakeTimers();
+      process.env[al.env.nodeEnables] = system;
+      samplingSink = new TestSink();
+      al.setBackend(samplingSink);
+      logger = al.log(system);
+    });
+
+    afterEach(() => {
+      clock.restore();
+      sinon.restore();
+      delete process.env[al.env.nodeRateLimit];
+      delete process.env[al.env.nodeDebugSampleRate];
+      al.setBackend(undefined);
+    });
+
+    function messages() {
+      return samplingSink.logs.map(log => log.args.join(' '));
+    }
+
+    it('limits the entries per second, except errors', () => {
+      samplingSink.setSampling({maxPerSecond: 2});
+      logger.info('one');
+      logger.info('two');
+      logger.info('three');
+      logger.error('error');
+      logger.warn('four');
+      assert.deepStrictEqual(messages(), ['one', 'two', 'error']);
+
+      clock.tick(1000);
+      logger.info('five');
+      assert.deepStrictEqual(messages(), [
+        'one',
+        'two',
+        'error',
+        '%d messages suppressed 2',
+        'five',
+      ]);
+      assert.deepStrictEqual(samplingSink.logs[3].fields, {
+        severity: al.LogSeverity.WARNING,
+        other: {suppressed: 2},
+      });
+    });
+
+    it('samples the debug entries', () => {
+      samplingSink.setSampling({debugSampleRate: 0.5});
+      const random = sinon.stub(Math, 'random');
+      random.onCall(0).returns(0.2);
+      random.onCall(1).returns(0.7);
+      logger.debug('kept');
+      logger.debug('dropped');
+      logger.info('info');
+      assert.deepStrictEqual(messages(), ['kept', 'info']);
+      clock.tick(1000);
+      assert.deepStrictEqual(messages(), [
+        'kept',
+        'info',
+        '%d messages suppressed 1',
+      ]);
+    });
+
+    it('only counts the entries over the severity threshold', () => {
+      process.env[al.env.nodeEnables] = `${system}=warn`;
+      process.env[al.env.nodeRateLimit] = '2';
+      samplingSink = new TestSink();
+      al.setBackend(samplingSink);
+      logger = al.log(system);
+      for (let i = 1; i <= 5; i++) {
+        logger.debug(`debug ${i}`);
+      }
+      logger.warn('one');
+      logger.warn('two');
+      logger.warn('three');
+      assert.deepStrictEqual(messages(), ['one', 'two']);
+      clock.tick(1000);
+      assert.deepStrictEqual(messages(), [
+        'one',
+        'two',
+        '%d messages suppressed 1',
+      ]);
+    });
+
+    it('is configured by the environment', () => {
+      process.env[al.env.nodeRateLimit] = '1';
+      process.env[al.env.nodeDebugSampleRate] = 'not a number';
+      const backend = new TestSink();
+      assert.deepStrictEqual(backend.sampling, {
+        maxPerSecond: 1,
+        debugSampleRate: undefined,
+      });
+    });
+
+    it('rejects invalid options', () => {
+      assert.throws(
+        () => samplingSink.setSampling({maxPerSecond: -1}),
+        /maxPerSecond should be a non-negative number/
+      );
+      assert.throws(
+        () => samplingSink.setSampling({debugSampleRate: 2}),
+        /debugSampleRate should be between 0 and 1/
+      );
+    });
+  });
+
+  describe('JSON log', () => {
+    const system = 'json';
+    let lines: string[];
+    let logger: al.AdhocDebugLogFunction;
+
+    function entries() {
+      return lines.map(line => {
+        assert.ok(line.endsWith('\n'));
+        const entry = JSON.parse(line);
+        delete entry.timestamp;
+        return entry;
+      });
+    }
+
+    beforeEach(() => {
+      lines = [];
+      process.env[al.env.nodeEnables] = system;
+      al.setBackend(
+        al.getJsonBackend({
+          projectId: 'my-project',
+          labels: {app: 'library'},
+          write: line => lines.push(line),
+        })
+      );
+      logger = al.log(system);
+    });
+
+    afterEach(() => {
+      delete process.env[al.env.nodeBackend];
+      al.setBackend(undefined);
+    });
+
+    it('writes one Cloud Logging entry per line', () => {
+      logger(
+        {
+          severity: al.LogSeverity.WARNING,
+          telemetryTraceId: '0123abcd',
+          telemetrySpanId: '42',
+          other: {attempt: 2},
+        },
+        'retrying %s',
+        'GetBook'
+      );
+      logger.debug('done');
+      assert.deepStrictEqual(entries(), [
+        {
+          severity: 'WARNING',
+          message: 'retrying GetBook',
+          'logging.googleapis.com/trace': 'projects/my-project/traces/0123abcd',
+          'logging.googleapis.com/spanId': '42',
+          'logging.googleapis.com/labels': {app: 'library', namespace: 'json'},
+          other: {attempt: 2},
+        },
+        {
+          severity: 'DEBUG',
+          message: 'done',
+          'logging.googleapis.com/labels': {app: 'library', namespace: 'json'},
+        },
+      ]);
+      assert.ok(!isNaN(Date.parse(JSON.parse(lines[0]).timestamp)));
+    });
+
+    it('serializes circular and BigInt values', () => {
+      const other: {[key: string]: unknown} = {big: BigInt(2) ** BigInt(70)};
+      other.self = other;
+      other.error = Object.assign(new Error('boom'), {code: 14});
+      logger({other}, 'values');
+      const entry = entries()[0];
+      assert.strictEqual(entry.other.big, '1180591620717411303424');
+      assert.strictEqual(entry.other.self, '[Circular]');
+      assert.strictEqual(entry.other.error.message, 'boom');
+      assert.strictEqual(entry.other.error.code, 14);
+    });
+
+    it('adds the source location of the caller', () => {
+      al.setBackend(
+        al.getJsonBackend({
+          sourceLocation: true,
+          write: line => lines.push(line),
+        })
+      );
+      logger.info('here');
+      const location = entries()[0]['logging.googleapis.com/sourceLocation'];
+      assert.strictEqual(location.file, __filename);
+      assert.ok(Number(location.line) > 0);
+    });
+
+    it('is selected by the environment', () => {
+      process.env[al.env.nodeBackend] = 'json';
+      al.setBackend(undefined);
+      const sandbox = sinon.createSandbox();
+      const written: string[] = [];
+      sandbox.stub(process.stdout, 'write').callsFake(line => {
+        written.push(line as string);
+        return true;
+      });
+      try {
+        al.log(system).info('from the environment');
+      } finally {
+        sandbox.restore();
+      }
+      assert.strictEqual(written.length, 1);
+      assert.strictEqual(
+        JSON.parse(written[0]).message,
+        'from the environment'
+      );
+    });
+  });
+
+  describe('Browser log', () => {
+    const system = 'browser';
+    let storage: {[name: string]: string};
+    let printed: Array<[string, unknown[]]>;
+
+    beforeEach(() => {
+      delete process.env[al.env.nodeEnables];
+      storage = {};
+      printed = [];
+      // Pretend to be a browser: no Node, and a localStorage.
+      sinon.stub(process, 'versions').value({});
+      Object.defineProperty(globalThis, 'localStorage', {
+        configurable: true,
+        value: {getItem: (name: string) => storage[name] ?? null},
+      });
+      for (const method of ['log', 'debug', 'info', 'warn', 'error'] as const) {
+        sinon
+          .stub(console, method)
+          .callsFake((...args) => printed.push([method, args]));
+      }
+      al.setBackend(undefined);
+    });
+
+    afterEach(() => {
+      sinon.restore();
+      delete (globalThis as {localStorage?: unknown}).localStorage;
+      al.setBackend(undefined);
+    });
+
+    it('is enabled from localStorage', () => {
+      assert.strictEqual(al.log(system), al.placeholder);
+      storage[al.env.nodeEnables] = system;
+      al.log(system).warn('retrying %s', 'GetBook');
+      al.log('other').warn('filtered out');
+      assert.deepStrictEqual(printed, [
+        [
+          'warn',
+          [
+            '%cbrowser%c retrying %s',
+            'color: #0074d9; font-weight: bold',
+            '',
+            'GetBook',
+          ],
+        ],
+      ]);
+    });
+
+    it('is enabled from a global variable', () => {
+      (globalThis as {[name: string]: unknown})[al.env.nodeEnables] = '*';
+      try {
+        al.log(system).error('failed');
+      } finally {
+        delete (globalThis as {[name: string]: unknown})[al.env.nodeEnables];
+      }
+      assert.deepStrictEqual(
+        printed.map(([method]) => method),
+        ['error']
+      );
+    });
+
+    it('works without a process', () => {
+      storage[al.env.nodeEnables] = system;
+      const global = globalThis as {process?: NodeJS.Process};
+      const nodeProcess = global.process;
+      global.process = undefined;
+      try {
+        al.log(system).info('no process');
+      } finally {
+        global.process = nodeProcess;
+      }
+      assert.deepStrictEqual(printed, [
+        [
+          'info',
+          ['%cbrowser%c no process', 'color: #0074d9; font-weight: bold', ''],
+        ],
+      ]);
+    });
+
+    it('maps the severities to console methods', () => {
+      al.setBackend(al.getBrowserBackend());
+      const logger = al.log(system);
+      logger.debug('debug');
+      logger.info('info');
+      logger({other: {attempt: 2}}, 'default');
+      logger({}, {not: 'a format'});
+      assert.deepStrictEqual(
+        printed.map(([method, args]) => [method, args[0], args.slice(3)]),
+        [
+          ['debug', '%cbrowser%c debug', []],
+          ['info', '%cbrowser%c info', []],
+          ['log', '%cbrowser%c default', [{other: {attempt: 2}}]],
+          ['log', '%cbrowser%c', [{not: 'a format'}]],
+        ]
+      );
+    });
+  });
+
+  describe('Ring buffer', () => {
+    beforeEach(() => {
+      process.env[al.env.nodeEnables] = '*';
+    });
+
+    afterEach(() => {
+      al.setBackend(undefined);
+    });
+
+    it('keeps the last entries without printing them', () => {
+      const buffer = al.getRingBufferBackend({size: 3});
+      al.setBackend(buffer);
+      const sandbox = sinon.createSandbox();
+      const printed = sandbox.stub(console, 'error');
+      try {
+        al.log('ring').debug('one');
+        al.log('ring:sub').info('two');
+        al.log('ring').warn('three');
+        al.log('ring')({}, 'four %d', 4);
+      } finally {
+        sandbox.restore();
+      }
+      assert.strictEqual(printed.called, false);
+
+      const dumped = buffer.dump();
+      assert.deepStrictEqual(
+        dumped.map(({namespace, fields, args}) => ({namespace, fields, args})),
+        [
+          {
+            namespace: 'ring:sub',
+            fields: {severity: al.LogSeverity.INFO},
+            args: ['two'],
+          },
+          {
+            namespace: 'ring',
+            fields: {severity: al.LogSeverity.WARNING},
+            args: ['three'],
+          },
+          {namespace: 'ring', fields: {}, args: ['four %d', 4]},
+        ]
+      );
+      assert.ok(dumped.every(entry => typeof entry.timestamp === 'number'));
+      assert.deepStrictEqual(buffer.drain(), dumped);
+      assert.deepStrictEqual(buffer.dump(), []);
+    });
+
+    it('passes the entries to the upstream backend', () => {
+      const upstream = new TestSink();
+      const buffer = al.getRingBufferBackend({upstream});
+      al.setBackend(buffer);
+      al.log('ring').debug('debug');
+      assert.deepStrictEqual(upstream.logs, [
+        {
+          namespace: 'ring',
+          fields: {severity: al.LogSeverity.DEBUG},
+          args: ['debug'],
+        },
+      ]);
+      assert.strictEqual(buffer.dump().length, 1);
+    });
+
+    it('flushes to the upstream backend on errors', () => {
+      process.env[al.env.nodeEnables] = 'ring=error';
+      const upstream = new TestSink();
+      al.setBackend(al.getRingBufferBackend({upstream, flushOnError: true}));
+      const logger = al.log('ring');
+      logger.debug('context');
+      logger.info('more context');
+      assert.strictEqual(upstream.logs.length, 0);
+
+      logger.error('failed');
+      assert.deepStrictEqual(
+        upstream.logs.map(log => log.args[0]),
+        ['context', 'more context', 'failed']
+      );
+
+      // The buffer was emptied by the flush.
+      logger.error('failed again');
+      assert.deepStrictEqual(
+        upstream.logs.map(log => log.args[0]),
+        ['context', 'more context', 'failed', 'failed again']
+      );
+    });
+
+    it('flushes to the default backend without an upstream', () => {
+      const buffer = al.getRingBufferBackend({flushOnError: true});
+      al.setBackend(buffer);
+      const sandbox = sinon.createSandbox();
+      const printed: unknown[][] = [];
+      sandbox.stub(console, 'error').callsFake((...args) => printed.push(args));
+      try {
+        al.log('ring').debug('context');
+        al.log('ring').error('failed');
+      } finally {
+        sandbox.restore();
+      }
+      assert.deepStrictEqual(
+        printed.map(args => args[4]),
+        ['context', 'failed']
+      );
+      assert.deepStrictEqual(buffer.dump(), []);
+    });
+
+    it('flushes the entries the filters of the upstream backend drop', () => {
+      process.env[al.env.nodeEnables] = 'ring:failing,ring:retry=warn';
+      const lines: string[] = [];
+      const upstream = al.getJsonBackend({write: line => lines.push(line)});
+      al.setBackend(al.getRingBufferBackend({upstream, flushOnError: true}));
+      al.log('ring:auth').debug('token refreshed');
+      al.log('ring:retry').info('retrying');
+      al.log('ring:retry').warn('giving up');
+      al.log('ring:retry').info('retrying again');
+      al.log('ring:failing').error('failed');
+      assert.deepStrictEqual(
+        lines.map(line => {
+          const entry = JSON.parse(line);
+          return [
+            entry['logging.googleapis.com/labels'].namespace,
+            entry.message,
+          ];
+        }),
+        [
+          ['ring:retry', 'giving up'],
+          ['ring:auth', 'token refreshed'],
+          ['ring:retry', 'retrying'],
+          ['ring:retry', 'retrying again'],
+          ['ring:failing', 'failed'],
+        ]
+      );
+    });
+
+    it('flushes the entries the default filters drop', () => {
+      process.env[al.env.nodeEnables] = 'ring:failing';
+      al.setBackend(al.getRingBufferBackend({flushOnError: true}));
+      const sandbox = sinon.createSandbox();
+      const printed: unknown[][] = [];
+      sandbox.stub(console, 'error').callsFake((...args) => printed.push(args));
+      try {
+        al.log('ring:auth').debug('token refreshed');
+        al.log('ring:retry').info('retrying');
+        al.log('ring:retry').info('retrying again');
+        al.log('ring:failing').error('failed');
+      } finally {
+        sandbox.restore();
+      }
+      assert.deepStrictEqual(
+        printed.map(args => args[4]),
+        ['token refreshed', 'retrying', 'retrying again', 'failed']
+      );
+    });
+
+    it('rejects invalid sizes', () => {
+      assert.throws(
+        () => al.getRingBufferBackend({size: 0}),
+        /size should be a positive integer/
+      );
+    });
+  });
+
   describe('sub-logs', () => {
     let logger: al.AdhocDebugLogFunction;
     const system = 'sublogs';